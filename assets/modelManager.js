@@ -0,0 +1,361 @@
+// Webview script of the OAI Compatible model manager (src/modelManager.ts).
+// @ts-check
+/* global acquireVsCodeApi, document, window, structuredClone */
+(function () {
+	const vscode = acquireVsCodeApi();
+
+	/** @type {{ target: string, hasWorkspace: boolean, hasDefaultKey: boolean, keys: Record<string, boolean>, fields: any[] }} */
+	let state = { target: "user", hasWorkspace: false, hasDefaultKey: false, keys: {}, fields: [] };
+	/** @type {any[]} Working copy of oaicopilot.models */
+	let models = [];
+	let selected = -1;
+	let dirty = false;
+	let fetchRequest = 0;
+	/** @type {Record<string, any>} */
+	const testResults = {};
+
+	const byId = (/** @type {string} */ id) => /** @type {HTMLElement} */ (document.getElementById(id));
+
+	/**
+	 * @param {string} tag
+	 * @param {Record<string, any>} [props]
+	 * @param {(Node | string)[]} children
+	 */
+	function el(tag, props, ...children) {
+		const node = document.createElement(tag);
+		for (const [key, value] of Object.entries(props ?? {})) {
+			if (key === "dataset") {
+				Object.assign(node.dataset, value);
+			} else {
+				// @ts-expect-error Assigning DOM properties by name
+				node[key] = value;
+			}
+		}
+		node.append(...children);
+		return node;
+	}
+
+	function modelId(/** @type {any} */ m) {
+		return m.configId ? m.id + "::" + m.configId : m.id;
+	}
+
+	function markDirty() {
+		dirty = true;
+		renderHeader();
+		renderList();
+	}
+
+	window.addEventListener("message", (event) => {
+		const msg = event.data;
+		switch (msg.type) {
+			case "state":
+				state = msg;
+				if (msg.force || !dirty) {
+					models = structuredClone(msg.models);
+					selected = Math.min(selected, models.length - 1);
+					dirty = false;
+					renderForm();
+				}
+				renderHeader();
+				renderList();
+				break;
+			case "models": {
+				if (msg.requestId !== fetchRequest) {
+					break;
+				}
+				const list = byId("fetched-ids");
+				list.replaceChildren(...msg.ids.map((/** @type {string} */ id) => el("option", { value: id })));
+				const info = document.querySelector(".fetch-info");
+				if (info) {
+					info.textContent = msg.error ? msg.error : msg.ids.length + " models, pick one in the id field";
+					info.classList.toggle("error", !!msg.error);
+				}
+				break;
+			}
+			case "testResult":
+				testResults[msg.modelId] = msg.result;
+				renderList();
+				break;
+		}
+	});
+
+	// Header: settings target, add, save and revert
+
+	const target = /** @type {HTMLSelectElement} */ (byId("target"));
+	target.addEventListener("change", () => {
+		vscode.postMessage({ type: "load", target: target.value });
+	});
+	byId("add").addEventListener("click", () => {
+		models.push({ id: "", owned_by: "" });
+		selected = models.length - 1;
+		markDirty();
+		renderForm();
+	});
+	byId("save").addEventListener("click", () => {
+		const invalid = models.findIndex((m) => !m.id || !m.owned_by);
+		if (invalid >= 0) {
+			selected = invalid;
+			renderForm();
+			setStatus("Every model needs an id and a provider (owned_by).", true);
+			return;
+		}
+		vscode.postMessage({ type: "save", target: state.target, models });
+	});
+	byId("revert").addEventListener("click", () => {
+		vscode.postMessage({ type: "load", target: state.target });
+	});
+
+	function setStatus(/** @type {string} */ text, error = false) {
+		const status = byId("status");
+		status.textContent = text;
+		status.classList.toggle("error", error);
+	}
+
+	function renderHeader() {
+		target.value = state.target;
+		target.disabled = dirty;
+		/** @type {HTMLOptionElement} */ (target.options[1]).disabled = !state.hasWorkspace;
+		/** @type {HTMLButtonElement} */ (byId("save")).disabled = !dirty;
+		/** @type {HTMLButtonElement} */ (byId("revert")).disabled = !dirty;
+		setStatus(dirty ? "Unsaved changes" : "");
+	}
+
+	// Model list grouped by provider, with API keys and connection tests
+
+	function renderList() {
+		/** @type {Map<string, number[]>} */
+		const groups = new Map();
+		models.forEach((m, i) => {
+			const provider = (m.owned_by || "").toLowerCase();
+			groups.set(provider, [...(groups.get(provider) ?? []), i]);
+		});
+
+		const sections = [];
+		for (const [provider, indices] of [...groups.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+			const rows = indices.map((i) => renderModelRow(i));
+			sections.push(el("div", { className: "group" }, renderGroupHeader(provider), ...rows));
+		}
+		if (sections.length === 0) {
+			sections.push(el("p", { className: "hint" }, "No models configured. Use Add Model to create one."));
+		}
+		byId("list").replaceChildren(...sections);
+	}
+
+	function renderGroupHeader(/** @type {string} */ provider) {
+		const hasKey = provider ? state.keys[provider] : false;
+		const keyStatus = el(
+			"span",
+			{ className: hasKey ? "key ok" : "key" },
+			hasKey ? "API key stored" : state.hasDefaultKey ? "Uses default API key" : "No API key"
+		);
+		const keyInput = /** @type {HTMLInputElement} */ (
+			el("input", { type: "password", placeholder: "API key for " + (provider || "provider"), hidden: true })
+		);
+		const setKey = el("button", { className: "secondary", textContent: "Set Key", disabled: !provider });
+		setKey.addEventListener("click", () => {
+			if (keyInput.hidden) {
+				keyInput.hidden = false;
+				setKey.textContent = "Store";
+				keyInput.focus();
+				return;
+			}
+			// An empty key clears the stored one
+			vscode.postMessage({ type: "setKey", provider, key: keyInput.value });
+		});
+		keyInput.addEventListener("keydown", (e) => {
+			if (e.key === "Enter") {
+				setKey.click();
+			}
+		});
+		return el(
+			"div",
+			{ className: "group-header" },
+			el("h3", {}, provider || "(no provider)"),
+			keyStatus,
+			keyInput,
+			setKey
+		);
+	}
+
+	function renderModelRow(/** @type {number} */ i) {
+		const m = models[i];
+		const id = modelId(m);
+		const result = testResults[id];
+
+		const test = el("button", {
+			className: "secondary",
+			textContent: "Test",
+			disabled: dirty || !m.id,
+			title: dirty ? "Save before testing" : "Send a short completion request",
+		});
+		test.addEventListener("click", (e) => {
+			e.stopPropagation();
+			testResults[id] = { pending: true };
+			renderList();
+			vscode.postMessage({ type: "test", modelId: id });
+		});
+		const variant = el("button", {
+			className: "secondary",
+			textContent: "Add Variant",
+			title: "Copy with another configId",
+		});
+		variant.addEventListener("click", (e) => {
+			e.stopPropagation();
+			const copy = structuredClone(m);
+			let configId = "variant";
+			for (let n = 2; models.some((o) => o.id === m.id && o.configId === configId); n++) {
+				configId = "variant-" + n;
+			}
+			copy.configId = configId;
+			models.splice(i + 1, 0, copy);
+			selected = i + 1;
+			markDirty();
+			renderForm();
+		});
+		const remove = el("button", { className: "secondary", textContent: "Delete" });
+		remove.addEventListener("click", (e) => {
+			e.stopPropagation();
+			models.splice(i, 1);
+			selected = selected === i ? -1 : selected > i ? selected - 1 : selected;
+			markDirty();
+			renderForm();
+		});
+
+		const resultText = !result
+			? ""
+			: result.pending
+				? "Testing..."
+				: result.ok
+					? "Connected, first token " +
+						result.firstPartMs +
+						" ms" +
+						(result.tokensPerSecond ? ", " + result.tokensPerSecond.toFixed(1) + " tok/s" : "")
+					: result.detail;
+		const row = el(
+			"div",
+			{ className: "model" + (i === selected ? " selected" : "") },
+			el("span", { className: "name" }, m.displayName || id || "(new model)"),
+			el("span", { className: "actions" }, test, variant, remove),
+			el("div", { className: "result" + (result && !result.pending && !result.ok ? " error" : "") }, resultText)
+		);
+		row.addEventListener("click", () => {
+			selected = i;
+			renderList();
+			renderForm();
+		});
+		return row;
+	}
+
+	// Form with every field of the selected model
+
+	function renderForm() {
+		const form = byId("form");
+		const m = models[selected];
+		if (!m) {
+			form.replaceChildren(el("p", { className: "hint" }, "Select a model to edit it."));
+			return;
+		}
+
+		/** @type {Map<string, HTMLElement>} */
+		const fieldsets = new Map();
+		for (const field of state.fields) {
+			let fieldset = fieldsets.get(field.group);
+			if (!fieldset) {
+				fieldset = el("fieldset", {}, el("legend", {}, field.group));
+				fieldsets.set(field.group, fieldset);
+			}
+			fieldset.append(renderField(m, field));
+		}
+		form.replaceChildren(...fieldsets.values());
+	}
+
+	function renderField(/** @type {any} */ m, /** @type {any} */ field) {
+		const value = m[field.key];
+		const error = el("span", { className: "field-error" });
+		const update = (/** @type {any} */ next) => {
+			if (next === undefined) {
+				delete m[field.key];
+			} else {
+				m[field.key] = next;
+			}
+			markDirty();
+		};
+
+		/** @type {HTMLElement} */
+		let input;
+		if (field.kind === "boolean" || field.kind === "enum") {
+			const options = field.kind === "boolean" ? ["true", "false"] : field.options;
+			input = el(
+				"select",
+				{},
+				el("option", { value: "", textContent: "(default)" }),
+				...options.map((/** @type {string} */ o) => el("option", { value: o, textContent: o }))
+			);
+			/** @type {HTMLSelectElement} */ (input).value = value === undefined ? "" : String(value);
+			input.addEventListener("change", () => {
+				const raw = /** @type {HTMLSelectElement} */ (input).value;
+				update(raw === "" ? undefined : field.kind === "boolean" ? raw === "true" : raw);
+			});
+		} else if (field.kind === "json") {
+			input = el("textarea", {
+				rows: 3,
+				placeholder: field.description ?? "",
+				value: value === undefined ? "" : JSON.stringify(value, null, 2),
+			});
+			input.addEventListener("input", () => {
+				const raw = /** @type {HTMLTextAreaElement} */ (input).value.trim();
+				try {
+					update(raw ? JSON.parse(raw) : undefined);
+					error.textContent = "";
+				} catch {
+					error.textContent = "Invalid JSON";
+				}
+			});
+		} else {
+			input = el("input", {
+				type: "text",
+				placeholder: field.kind === "number" && field.nullable ? "number, or null to omit" : (field.description ?? ""),
+				value: value === undefined ? "" : value === null ? "null" : String(value),
+			});
+			input.addEventListener("input", () => {
+				const raw = /** @type {HTMLInputElement} */ (input).value.trim();
+				if (field.kind !== "number") {
+					update(raw || undefined);
+					return;
+				}
+				if (raw === "") {
+					update(undefined);
+				} else if (raw === "null" && field.nullable) {
+					update(null);
+				} else if (Number.isFinite(Number(raw))) {
+					update(Number(raw));
+				} else {
+					error.textContent = "Not a number";
+					return;
+				}
+				error.textContent = "";
+			});
+		}
+
+		const label = el("label", {}, el("span", { className: "label" }, field.label), input, error);
+		if (field.key === "id") {
+			input.setAttribute("list", "fetched-ids");
+			const fetchButton = el("button", { className: "secondary", textContent: "Fetch Models" });
+			const info = el("span", { className: "fetch-info" });
+			fetchButton.addEventListener("click", (e) => {
+				e.preventDefault();
+				info.textContent = "Fetching...";
+				info.classList.remove("error");
+				vscode.postMessage({
+					type: "fetchModels",
+					requestId: ++fetchRequest,
+					model: m,
+				});
+			});
+			label.append(fetchButton, info);
+		}
+		return label;
+	}
+
+	vscode.postMessage({ type: "ready" });
+})();
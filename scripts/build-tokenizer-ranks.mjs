@@ -0,0 +1,103 @@
+/**
+ * Convert the Hugging Face tokenizers of Llama 3, Qwen 2.5 and DeepSeek V3 into js-tiktoken ranks,
+ * written to assets/tokenizers. Run `npm run build-ranks` after updating the @lenml/tokenizer-* packages.
+ *
+ * All three are byte-level BPE vocabularies whose token ids follow their merge order, so the ids
+ * are used as ranks. JavaScript has no inline `(?i:...)` groups, so the split patterns are written
+ * out like the cl100k_base one of js-tiktoken.
+ */
+// @ts-check
+import { createRequire } from "node:module";
+import { Buffer } from "node:buffer";
+import { mkdir, writeFile } from "node:fs/promises";
+import process from "node:process";
+import { URL } from "node:url";
+
+const require = createRequire(import.meta.url);
+
+const CONTRACTIONS = "'s|'S|'t|'T|'re|'rE|'Re|'RE|'ve|'vE|'Ve|'VE|'m|'M|'ll|'lL|'Ll|'LL|'d|'D";
+const CJK = "一-龥぀-ゟ゠-ヿ";
+
+const TOKENIZERS = [
+	{
+		name: "llama3",
+		pkg: "@lenml/tokenizer-llama3",
+		pattern: `(${CONTRACTIONS})|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+`,
+	},
+	{
+		name: "qwen",
+		pkg: "@lenml/tokenizer-qwen2_5",
+		pattern: `(${CONTRACTIONS})|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+`,
+	},
+	{
+		// DeepSeek splits digits and CJK runs before its main pattern, so they are matched first here
+		// and kept out of the letter and punctuation classes
+		name: "deepseek",
+		pkg: "@lenml/tokenizer-deepseek_v3",
+		pattern:
+			`\\p{N}{1,3}|[${CJK}]+|[!"#$%&'()*+,\\-./:;<=>?@\\[\\\\\\]^_\`{|}~][A-Za-z]+` +
+			`|[^\\r\\n\\p{L}\\p{P}\\p{S}]?(?:(?![${CJK}])[\\p{L}\\p{M}])+| ?(?:(?![${CJK}])[\\p{P}\\p{S}])+[\\r\\n]*` +
+			`|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+`,
+	},
+];
+
+/** Tokens per line of bpe_ranks, each line lists tokens of consecutive ranks. */
+const TOKENS_PER_LINE = 1000;
+
+/** The byte to character table of byte-level BPE vocabularies. */
+function byteDecoder() {
+	const bytes = [];
+	for (let b = 0; b < 256; b++) {
+		if ((b >= 0x21 && b <= 0x7e) || (b >= 0xa1 && b <= 0xac) || (b >= 0xae && b <= 0xff)) {
+			bytes.push(b);
+		}
+	}
+	const chars = bytes.map((b) => b);
+	let n = 0;
+	for (let b = 0; b < 256; b++) {
+		if (!bytes.includes(b)) {
+			bytes.push(b);
+			chars.push(256 + n++);
+		}
+	}
+	return new Map(chars.map((c, i) => [String.fromCodePoint(c), bytes[i]]));
+}
+
+function convert({ pkg, pattern }, decoder) {
+	const json = require(`${pkg}/models/tokenizer.json`);
+	/** @type {[string, number][]} */
+	const vocab = Object.entries(json.model.vocab);
+	vocab.sort((a, b) => a[1] - b[1]);
+
+	const lines = [];
+	let line = [];
+	let offset = 0;
+	for (const [token, rank] of vocab) {
+		if (line.length === TOKENS_PER_LINE || (line.length > 0 && rank !== offset + line.length)) {
+			lines.push(`! ${offset} ${line.join(" ")}`);
+			line = [];
+		}
+		if (line.length === 0) {
+			offset = rank;
+		}
+		const bytes = Uint8Array.from(Array.from(token, (c) => decoder.get(c) ?? 0));
+		line.push(Buffer.from(bytes).toString("base64"));
+	}
+	lines.push(`! ${offset} ${line.join(" ")}`);
+
+	const special_tokens = Object.fromEntries(
+		json.added_tokens.filter((t) => t.special).map((t) => [t.content, t.id])
+	);
+	// Fail early on a pattern that this Node version cannot compile
+	new RegExp(pattern, "ug");
+	return { pat_str: pattern, special_tokens, bpe_ranks: lines.join("\n") };
+}
+
+const decoder = byteDecoder();
+const outDir = new URL("../assets/tokenizers/", import.meta.url);
+await mkdir(outDir, { recursive: true });
+for (const tokenizer of TOKENIZERS) {
+	const ranks = convert(tokenizer, decoder);
+	await writeFile(new URL(`${tokenizer.name}.json`, outDir), JSON.stringify(ranks));
+	process.stdout.write(`Wrote assets/tokenizers/${tokenizer.name}.json\n`);
+}
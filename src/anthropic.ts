@@ -0,0 +1,374 @@
+import * as vscode from "vscode";
+import { LanguageModelResponsePart2, Progress, ProvideLanguageModelChatResponseOptions } from "vscode";
+
+import type {
+	AnthropicContentBlock,
+	AnthropicMessage,
+	AnthropicToolDef,
+	HFModelItem,
+	StreamDecoder,
+	TokenUsage,
+} from "./types";
+
+import { convertTools, collectToolResultText, isImageMimeType, isToolResultPart, mapRole } from "./utils";
+import { parseToolArguments } from "./toolArguments";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_MAX_TOKENS = 4096;
+// Anthropic rejects thinking budgets below this value
+const MIN_THINKING_BUDGET = 1024;
+
+/**
+ * Convert VS Code chat request messages into Anthropic Messages API shape.
+ * System messages are collected into a separate system prompt.
+ * @param messages The VS Code chat messages to convert.
+ */
+export function convertMessagesToAnthropic(messages: readonly vscode.LanguageModelChatRequestMessage[]): {
+	system?: string;
+	messages: AnthropicMessage[];
+} {
+	const systemParts: string[] = [];
+	const out: AnthropicMessage[] = [];
+
+	for (const m of messages) {
+		const role = mapRole(m);
+		const blocks: AnthropicContentBlock[] = [];
+		const toolResults: AnthropicContentBlock[] = [];
+		// Thinking is streamed as several parts sharing an id, the last one carries the signature
+		const thinkingText = new Map<string, string>();
+
+		for (const part of m.content ?? []) {
+			if (part instanceof vscode.LanguageModelTextPart) {
+				if (part.value) {
+					blocks.push({ type: "text", text: part.value });
+				}
+			} else if (part instanceof vscode.LanguageModelDataPart && isImageMimeType(part.mimeType)) {
+				blocks.push({
+					type: "image",
+					source: { type: "base64", media_type: part.mimeType, data: Buffer.from(part.data).toString("base64") },
+				});
+			} else if (part instanceof vscode.LanguageModelThinkingPart) {
+				// Thinking blocks can only be replayed with the signature Anthropic issued for them
+				const metadata = part.metadata as Record<string, unknown> | undefined;
+				const thinkingId = part.id ?? "";
+				const text =
+					(thinkingText.get(thinkingId) ?? "") + (Array.isArray(part.value) ? part.value.join("") : part.value);
+				thinkingText.set(thinkingId, text);
+				if (typeof metadata?.redactedData === "string") {
+					blocks.push({ type: "redacted_thinking", data: metadata.redactedData });
+				} else if (typeof metadata?.signature === "string" && text) {
+					blocks.push({ type: "thinking", thinking: text, signature: metadata.signature });
+					thinkingText.delete(thinkingId);
+				}
+			} else if (part instanceof vscode.LanguageModelToolCallPart) {
+				blocks.push({
+					type: "tool_use",
+					id: part.callId,
+					name: part.name,
+					input: (part.input ?? {}) as Record<string, unknown>,
+				});
+			} else if (isToolResultPart(part)) {
+				toolResults.push({
+					type: "tool_result",
+					tool_use_id: part.callId,
+					content: collectToolResultText(part),
+				});
+			}
+		}
+
+		if (role === "system") {
+			const text = blocks
+				.filter((b) => b.type === "text")
+				.map((b) => (b as { text: string }).text)
+				.join("\n");
+			if (text) {
+				systemParts.push(text);
+			}
+			continue;
+		}
+
+		// Tool results must lead the user turn that answers the tool calls
+		const content = role === "user" ? [...toolResults, ...blocks] : blocks;
+		if (content.length === 0) {
+			continue;
+		}
+
+		// Anthropic expects alternating roles, merge consecutive messages of the same role
+		const last = out[out.length - 1];
+		if (last && last.role === role) {
+			if (role === "user") {
+				const lastResults = last.content.filter((b) => b.type === "tool_result");
+				const lastOthers = last.content.filter((b) => b.type !== "tool_result");
+				last.content = [...lastResults, ...toolResults, ...lastOthers, ...blocks];
+			} else {
+				last.content.push(...content);
+			}
+		} else {
+			out.push({ role, content });
+		}
+	}
+
+	return { system: systemParts.length > 0 ? systemParts.join("\n\n") : undefined, messages: out };
+}
+
+/**
+ * Build an Anthropic `/messages` request body.
+ * @param modelId The model id sent to the API.
+ * @param messages The VS Code chat messages to convert.
+ * @param um The user model configuration, if any.
+ * @param options Request options containing tools and model options.
+ */
+export function prepareAnthropicRequestBody(
+	modelId: string,
+	messages: readonly vscode.LanguageModelChatRequestMessage[],
+	um: HFModelItem | undefined,
+	options: ProvideLanguageModelChatResponseOptions
+): Record<string, unknown> {
+	const converted = convertMessagesToAnthropic(messages);
+	const maxTokens = um?.max_tokens ?? um?.max_completion_tokens ?? DEFAULT_MAX_TOKENS;
+
+	const rb: Record<string, unknown> = {
+		model: modelId,
+		max_tokens: maxTokens,
+		messages: converted.messages,
+		stream: true,
+	};
+	if (converted.system) {
+		rb.system = converted.system;
+	}
+
+	const thinkingEnabled =
+		um?.thinking?.type === "enabled" ||
+		um?.enable_thinking === true ||
+		(um?.reasoning !== undefined && um.reasoning.enabled !== false);
+	if (thinkingEnabled) {
+		const budget =
+			um?.thinking?.budget_tokens ?? um?.thinking_budget ?? um?.reasoning?.max_tokens ?? MIN_THINKING_BUDGET;
+		// budget_tokens must stay below max_tokens. When even the minimum budget doesn't fit, max_tokens
+		// is raised by it so the configured output limit is left for the answer.
+		if (maxTokens <= MIN_THINKING_BUDGET) {
+			rb.max_tokens = maxTokens + MIN_THINKING_BUDGET;
+			rb.thinking = { type: "enabled", budget_tokens: MIN_THINKING_BUDGET };
+		} else {
+			rb.thinking = {
+				type: "enabled",
+				budget_tokens: Math.min(Math.max(budget, MIN_THINKING_BUDGET), maxTokens - 1),
+			};
+		}
+	} else {
+		// Sampling overrides are only allowed without extended thinking
+		const temperature = um?.temperature ?? options.modelOptions?.temperature ?? 0;
+		if (!(um && um.temperature === null)) {
+			rb.temperature = temperature;
+		}
+		if (um?.top_p !== undefined && um.top_p !== null) {
+			rb.top_p = um.top_p;
+		}
+		if (um?.top_k !== undefined) {
+			rb.top_k = um.top_k;
+		}
+	}
+
+	if (options.modelOptions) {
+		const mo = options.modelOptions as Record<string, unknown>;
+		if (typeof mo.stop === "string") {
+			rb.stop_sequences = [mo.stop];
+		} else if (Array.isArray(mo.stop)) {
+			rb.stop_sequences = mo.stop;
+		}
+	}
+
+	const toolConfig = convertTools(options);
+	if (toolConfig.tools) {
+		rb.tools = toolConfig.tools.map(
+			(t) =>
+				({
+					name: t.function.name,
+					description: t.function.description,
+					input_schema: t.function.parameters ?? { type: "object", properties: {} },
+				}) satisfies AnthropicToolDef
+		);
+		if (toolConfig.tool_choice && toolConfig.tool_choice !== "auto") {
+			rb.tool_choice = { type: "tool", name: toolConfig.tool_choice.function.name };
+		} else {
+			rb.tool_choice = { type: "auto" };
+		}
+	}
+
+	if (um?.extra && typeof um.extra === "object") {
+		for (const [key, value] of Object.entries(um.extra)) {
+			if (value !== undefined) {
+				rb[key] = value;
+			}
+		}
+	}
+
+	return rb;
+}
+
+/**
+ * Build Anthropic request headers. Custom model headers take precedence.
+ * @param apiKey The API key sent as `x-api-key`.
+ * @param userAgent The extension User-Agent.
+ * @param um The user model configuration, if any.
+ */
+export function prepareAnthropicHeaders(
+	apiKey: string,
+	userAgent: string,
+	um: HFModelItem | undefined
+): Record<string, string> {
+	const defaultHeaders: Record<string, string> = {
+		"x-api-key": apiKey,
+		"anthropic-version": ANTHROPIC_VERSION,
+		"Content-Type": "application/json",
+		"User-Agent": userAgent,
+	};
+	return um?.headers ? { ...defaultHeaders, ...um.headers } : defaultHeaders;
+}
+
+/**
+ * Decodes Anthropic Messages API stream events into VS Code response parts.
+ * One decoder is created per request.
+ */
+export class AnthropicStreamDecoder implements StreamDecoder {
+	/** Content blocks in flight, keyed by block index. */
+	private readonly _blocks = new Map<
+		number,
+		{ type: string; id?: string; name?: string; args: string; thinkingId?: string; signature?: string }
+	>();
+
+	usage: TokenUsage | undefined;
+
+	constructor(private readonly progress: Progress<LanguageModelResponsePart2>) {}
+
+	/**
+	 * Handle one parsed `data:` payload from the event stream.
+	 * @param event The parsed event object.
+	 */
+	processEvent(event: Record<string, unknown>): void {
+		const type = event.type as string | undefined;
+		const index = typeof event.index === "number" ? event.index : 0;
+
+		switch (type) {
+			case "content_block_start": {
+				const block = (event.content_block ?? {}) as Record<string, unknown>;
+				const blockType = String(block.type ?? "");
+				if (blockType === "tool_use") {
+					this._blocks.set(index, {
+						type: blockType,
+						id: block.id as string | undefined,
+						name: block.name as string | undefined,
+						args: "",
+					});
+				} else if (blockType === "thinking") {
+					this._blocks.set(index, { type: blockType, args: "", thinkingId: this.generateThinkingId() });
+					if (typeof block.thinking === "string" && block.thinking) {
+						this.reportThinking(index, block.thinking);
+					}
+				} else if (blockType === "redacted_thinking") {
+					// Keep the opaque payload so it can be replayed on the next turn
+					this.progress.report(
+						new vscode.LanguageModelThinkingPart("", this.generateThinkingId(), { redactedData: block.data })
+					);
+				} else if (blockType === "text") {
+					this._blocks.set(index, { type: blockType, args: "" });
+					if (typeof block.text === "string" && block.text) {
+						this.progress.report(new vscode.LanguageModelTextPart(block.text));
+					}
+				}
+				break;
+			}
+			case "content_block_delta": {
+				const delta = (event.delta ?? {}) as Record<string, unknown>;
+				const block = this._blocks.get(index);
+				if (delta.type === "text_delta" && typeof delta.text === "string") {
+					if (delta.text) {
+						this.progress.report(new vscode.LanguageModelTextPart(delta.text));
+					}
+				} else if (delta.type === "thinking_delta" && typeof delta.thinking === "string") {
+					this.reportThinking(index, delta.thinking);
+				} else if (delta.type === "signature_delta" && typeof delta.signature === "string" && block) {
+					block.signature = (block.signature ?? "") + delta.signature;
+				} else if (delta.type === "input_json_delta" && typeof delta.partial_json === "string" && block) {
+					block.args += delta.partial_json;
+				}
+				break;
+			}
+			case "content_block_stop": {
+				this.finishBlock(index);
+				break;
+			}
+			case "message_start": {
+				const message = (event.message ?? {}) as Record<string, unknown>;
+				this.updateUsage(message.usage as Record<string, unknown> | undefined);
+				break;
+			}
+			case "message_delta":
+			case "message_stop": {
+				for (const idx of Array.from(this._blocks.keys())) {
+					this.finishBlock(idx);
+				}
+				this.updateUsage(event.usage as Record<string, unknown> | undefined);
+				break;
+			}
+			case "error": {
+				const error = (event.error ?? {}) as Record<string, unknown>;
+				throw new Error(`API error: ${error.type ?? "error"}: ${error.message ?? JSON.stringify(event)}`);
+			}
+			default:
+				// ping and unknown events carry no renderable content
+				break;
+		}
+	}
+
+	private reportThinking(index: number, text: string): void {
+		if (!text) {
+			return;
+		}
+		const block = this._blocks.get(index);
+		this.progress.report(new vscode.LanguageModelThinkingPart(text, block?.thinkingId));
+	}
+
+	private finishBlock(index: number): void {
+		const block = this._blocks.get(index);
+		if (!block) {
+			return;
+		}
+		this._blocks.delete(index);
+
+		if (block.type === "thinking") {
+			// Close the thinking sequence and carry the signature needed to replay it
+			const metadata = block.signature ? { signature: block.signature } : undefined;
+			this.progress.report(new vscode.LanguageModelThinkingPart("", block.thinkingId, metadata));
+		} else if (block.type === "tool_use") {
+			const name = block.name ?? "unknown_tool";
+			const id = block.id ?? `toolu_${Math.random().toString(36).slice(2, 10)}`;
+			this.progress.report(new vscode.LanguageModelToolCallPart(id, name, parseToolArguments(block.args, name)));
+		}
+	}
+
+	/**
+	 * Merge usage from message_start (input tokens) and message_delta (cumulative output tokens).
+	 */
+	private updateUsage(usage: Record<string, unknown> | undefined): void {
+		if (!usage) {
+			return;
+		}
+		const num = (value: unknown) => (typeof value === "number" ? value : 0);
+		const current = this.usage ?? { promptTokens: 0, completionTokens: 0 };
+		if (usage.input_tokens !== undefined) {
+			const cacheRead = num(usage.cache_read_input_tokens);
+			// Anthropic reports cached and cache-creation tokens separately from input_tokens
+			current.promptTokens = num(usage.input_tokens) + cacheRead + num(usage.cache_creation_input_tokens);
+			current.cachedTokens = cacheRead;
+		}
+		if (usage.output_tokens !== undefined) {
+			current.completionTokens = num(usage.output_tokens);
+		}
+		this.usage = current;
+	}
+
+	private generateThinkingId(): string {
+		return `thinking_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+	}
+}
@@ -0,0 +1,161 @@
+/**
+ * Error raised for a non-2xx HTTP response from a provider.
+ * The message is meant for the chat, the raw response stays available on the instance.
+ */
+export class ApiError extends Error {
+	override readonly name = "ApiError";
+
+	constructor(
+		message: string,
+		/** HTTP status code. */
+		readonly status: number,
+		readonly statusText: string,
+		readonly headers: Record<string, string>,
+		/** Provider name used in messages (owned_by or host). */
+		readonly provider: string,
+		/** Raw response text. */
+		readonly bodyText: string,
+		/** Response body parsed as JSON, if it was JSON. */
+		readonly body?: unknown,
+		/** Provider specific error code or type, e.g. "rate_limit_exceeded". */
+		readonly code?: string,
+		/** Delay requested by Retry-After or x-ratelimit-reset-* headers. */
+		readonly retryAfterMs?: number
+	) {
+		super(message);
+	}
+}
+
+/**
+ * Read a failed response into an {@link ApiError}.
+ * @param res The non-ok fetch response.
+ * @param provider Provider name used in the message.
+ */
+export async function createApiError(res: Response, provider: string): Promise<ApiError> {
+	const bodyText = await res.text().catch(() => "");
+	let body: unknown;
+	try {
+		body = bodyText ? JSON.parse(bodyText) : undefined;
+	} catch {
+		body = undefined;
+	}
+
+	const headers: Record<string, string> = {};
+	res.headers.forEach((value, key) => {
+		headers[key.toLowerCase()] = value;
+	});
+
+	const { code, detail } = extractProviderError(body, bodyText);
+	const retryAfterMs = parseRetryAfter(headers);
+	const message = formatApiErrorMessage(res.status, provider, detail, retryAfterMs);
+	return new ApiError(message, res.status, res.statusText, headers, provider, bodyText, body, code, retryAfterMs);
+}
+
+/**
+ * Delay the server asked for, from `retry-after-ms`, `Retry-After` or the `x-ratelimit-reset-*` headers.
+ * @param headers Response headers with lower-cased names.
+ * @returns Milliseconds to wait, or undefined when no usable header is present.
+ */
+export function parseRetryAfter(headers: Record<string, string>): number | undefined {
+	const retryAfterMs = Number(headers["retry-after-ms"]);
+	if (headers["retry-after-ms"] && Number.isFinite(retryAfterMs)) {
+		return Math.max(0, retryAfterMs);
+	}
+
+	const retryAfter = headers["retry-after"];
+	if (retryAfter) {
+		const seconds = Number(retryAfter);
+		if (Number.isFinite(seconds)) {
+			return Math.max(0, seconds * 1000);
+		}
+		const date = Date.parse(retryAfter);
+		if (!Number.isNaN(date)) {
+			return Math.max(0, date - Date.now());
+		}
+	}
+
+	// Wait for the latest of the request and token windows to reset
+	let resetMs: number | undefined;
+	for (const name of ["x-ratelimit-reset-requests", "x-ratelimit-reset-tokens", "x-ratelimit-reset"]) {
+		const value = headers[name] ? parseResetValue(headers[name]) : undefined;
+		if (value !== undefined) {
+			resetMs = Math.max(resetMs ?? 0, value);
+		}
+	}
+	return resetMs;
+}
+
+/**
+ * Parse a reset header value: a duration like "1m30s" or "250ms", seconds, or a Unix timestamp.
+ */
+function parseResetValue(value: string): number | undefined {
+	const trimmed = value.trim();
+	const num = Number(trimmed);
+	if (trimmed !== "" && Number.isFinite(num)) {
+		if (num > 1e12) {
+			return Math.max(0, num - Date.now());
+		}
+		if (num > 1e9) {
+			return Math.max(0, num * 1000 - Date.now());
+		}
+		return Math.max(0, num * 1000);
+	}
+
+	const units: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1000, ms: 1 };
+	let total = 0;
+	let matched = "";
+	for (const m of trimmed.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)) {
+		total += Number(m[1]) * units[m[2]];
+		matched += m[0];
+	}
+	return matched && matched === trimmed ? total : undefined;
+}
+
+/**
+ * Pull the error code and human readable message out of the common provider error bodies
+ * (OpenAI, Anthropic, Gemini and plain `{message}` / `{detail}` shapes).
+ */
+function extractProviderError(body: unknown, bodyText: string): { code?: string; detail?: string } {
+	if (body && typeof body === "object") {
+		const obj = body as Record<string, unknown>;
+		const err = obj.error;
+		if (err && typeof err === "object") {
+			const e = err as Record<string, unknown>;
+			const code = e.code ?? e.type ?? e.status;
+			return {
+				code: code !== undefined && code !== null ? String(code) : undefined,
+				detail: typeof e.message === "string" ? e.message : undefined,
+			};
+		}
+		if (typeof err === "string") {
+			return { code: typeof obj.code === "string" ? obj.code : undefined, detail: err };
+		}
+		const detail =
+			typeof obj.message === "string" ? obj.message : typeof obj.detail === "string" ? obj.detail : undefined;
+		if (detail) {
+			return { code: typeof obj.code === "string" ? obj.code : undefined, detail };
+		}
+	}
+	const text = bodyText.trim();
+	return { detail: text ? text.slice(0, 200) : undefined };
+}
+
+function formatApiErrorMessage(
+	status: number,
+	provider: string,
+	detail: string | undefined,
+	retryAfterMs: number | undefined
+): string {
+	const retryIn = retryAfterMs !== undefined ? `, retry in ${Math.ceil(retryAfterMs / 1000)}s` : "";
+	const suffix = detail ? `: ${detail}` : "";
+	if (status === 429) {
+		return `Rate limited by ${provider}${retryIn}${suffix}`;
+	}
+	if (status === 401 || status === 403) {
+		return `Authentication failed for ${provider} (${status})${suffix}`;
+	}
+	if (status >= 500) {
+		return `${provider} server error (${status})${retryIn}${suffix}`;
+	}
+	return `${provider} rejected the request (${status})${suffix}`;
+}
@@ -0,0 +1,124 @@
+import * as vscode from "vscode";
+
+import type { BudgetConfig, ModelPricing, TokenUsage } from "./types";
+import { UsageLedger, dayKey, formatCost } from "./usage";
+import { logger } from "./logger";
+
+/** Key of the `oaicopilot.budgets` entry that applies to all providers together. */
+const GLOBAL_BUDGET_KEY = "*";
+
+/** What to do when a budget is exhausted: refuse the request or ask before sending it. */
+export type BudgetAction = "block" | "confirm";
+
+/**
+ * A budget whose limit has been reached.
+ */
+export interface ExceededBudget {
+	/** The provider the budget applies to, undefined for the global budget. */
+	provider: string | undefined;
+	period: "daily" | "monthly";
+	limit: number;
+	spent: number;
+}
+
+/**
+ * Thrown when a request is refused because a spending budget is exhausted.
+ */
+export class BudgetExceededError extends Error {
+	constructor(readonly budget: ExceededBudget) {
+		const scope = budget.provider ? `for ${budget.provider}` : "for all providers";
+		const period = budget.period === "daily" ? "Daily" : "Monthly";
+		super(
+			`${period} budget ${scope} exhausted: ${formatCost(budget.spent)} of ${formatCost(budget.limit)} spent. ` +
+				`Raise it in "oaicopilot.budgets" to continue.`
+		);
+		this.name = "BudgetExceededError";
+	}
+}
+
+/**
+ * Compute the cost of a request in USD.
+ * @param usage The token usage of the request.
+ * @param pricing The model prices per million tokens.
+ * @returns The cost, or undefined when the model has no pricing.
+ */
+export function computeCost(usage: TokenUsage, pricing: ModelPricing | undefined): number | undefined {
+	if (!pricing) {
+		return undefined;
+	}
+	const input = pricing.input ?? 0;
+	const output = pricing.output ?? 0;
+	const cached = Math.min(usage.cachedTokens ?? 0, usage.promptTokens);
+	const reasoning = Math.min(usage.reasoningTokens ?? 0, usage.completionTokens);
+	return (
+		((usage.promptTokens - cached) * input +
+			cached * (pricing.cached_input ?? input) +
+			(usage.completionTokens - reasoning) * output +
+			reasoning * (pricing.reasoning ?? output)) /
+		1_000_000
+	);
+}
+
+/**
+ * Find the first exhausted budget that applies to a provider: its own entry, then the global "*" entry.
+ * @param ledger The usage ledger holding past costs.
+ * @param provider The provider of the request (owned_by or host).
+ * @param budgets The `oaicopilot.budgets` setting.
+ */
+export function findExceededBudget(
+	ledger: UsageLedger,
+	provider: string,
+	budgets: Record<string, BudgetConfig>
+): ExceededBudget | undefined {
+	const now = new Date();
+	const today = dayKey(now);
+	const monthStart = dayKey(new Date(now.getFullYear(), now.getMonth(), 1));
+
+	for (const [key, budget] of Object.entries(budgets)) {
+		const isGlobal = key === GLOBAL_BUDGET_KEY;
+		if (!isGlobal && key.toLowerCase() !== provider.toLowerCase()) {
+			continue;
+		}
+		const scope = isGlobal ? undefined : provider;
+		if (budget.daily !== undefined) {
+			const spent = ledger.costSince(today, scope);
+			if (spent >= budget.daily) {
+				return { provider: scope, period: "daily", limit: budget.daily, spent };
+			}
+		}
+		if (budget.monthly !== undefined) {
+			const spent = ledger.costSince(monthStart, scope);
+			if (spent >= budget.monthly) {
+				return { provider: scope, period: "monthly", limit: budget.monthly, spent };
+			}
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Check the budgets before sending a request. Depending on `oaicopilot.budgetAction`, an exhausted
+ * budget refuses the request or asks the user whether to send it anyway.
+ * @param ledger The usage ledger holding past costs.
+ * @param provider The provider of the request (owned_by or host).
+ * @throws BudgetExceededError when the request must not be sent.
+ */
+export async function enforceBudgets(ledger: UsageLedger, provider: string): Promise<void> {
+	const config = vscode.workspace.getConfiguration();
+	const budgets = config.get<Record<string, BudgetConfig>>("oaicopilot.budgets", {});
+	const exceeded = findExceededBudget(ledger, provider, budgets);
+	if (!exceeded) {
+		return;
+	}
+
+	const error = new BudgetExceededError(exceeded);
+	if (config.get<BudgetAction>("oaicopilot.budgetAction", "block") === "confirm") {
+		const sendAnyway = "Send Anyway";
+		const choice = await vscode.window.showWarningMessage(error.message, { modal: true }, sendAnyway);
+		if (choice === sendAnyway) {
+			logger.warn("Budget exceeded, sending after confirmation", exceeded);
+			return;
+		}
+	}
+	throw error;
+}
@@ -0,0 +1,423 @@
+import * as vscode from "vscode";
+import { isDeepStrictEqual } from "util";
+import { type JSONPath, findNodeAtLocation, getNodeValue, modify, parseTree } from "jsonc-parser";
+
+import type { HFModelItem } from "./types";
+import { isReplayUrl } from "./recorder";
+import { PROVIDER_PRESETS, applyPreset, findPreset } from "./presets";
+import { logger } from "./logger";
+
+const DIAGNOSTIC_SOURCE = "OAI Compatible";
+
+/**
+ * A change that resolves a problem: set or remove a property of the model entry, or run a command.
+ */
+export type ModelConfigFix =
+	| {
+			title: string;
+			/** Property of the model entry to change. */
+			field: string;
+			/** New value, undefined to remove the property. */
+			value: unknown;
+	  }
+	| { title: string; command: string };
+
+/**
+ * A problem found in one `oaicopilot.models` entry.
+ */
+export interface ModelConfigProblem {
+	/** Index of the entry in `oaicopilot.models`. */
+	index: number;
+	/** Property the problem is reported on, undefined for the entry as a whole. */
+	field: string | undefined;
+	message: string;
+	severity: vscode.DiagnosticSeverity;
+	fixes: ModelConfigFix[];
+}
+
+/**
+ * A settings file that defines `oaicopilot.models`, and where the setting sits inside it.
+ */
+interface SettingsScope {
+	models: HFModelItem[];
+	/** The file defining the value, undefined when it cannot be located. */
+	uri: vscode.Uri | undefined;
+	/** JSON path of `oaicopilot.models` in the file. */
+	path: JSONPath;
+}
+
+interface ReportedProblem {
+	diagnostic: vscode.Diagnostic;
+	problem: ModelConfigProblem;
+	path: JSONPath;
+}
+
+/**
+ * Check `oaicopilot.models` for mistakes that otherwise fail silently or only at request time.
+ * @param models The configured models.
+ * @param secrets Secret storage holding the API keys.
+ */
+export async function validateModels(
+	models: HFModelItem[],
+	secrets: vscode.SecretStorage
+): Promise<ModelConfigProblem[]> {
+	const problems: ModelConfigProblem[] = [];
+	const report = (
+		index: number,
+		field: string | undefined,
+		message: string,
+		severity = vscode.DiagnosticSeverity.Error,
+		fixes: ModelConfigFix[] = []
+	) => problems.push({ index, field, message, severity, fixes });
+
+	const hasGenericKey = !!(await secrets.get("oaicopilot.apiKey"));
+	const firstIndex = new Map<string, number>();
+
+	for (let index = 0; index < models.length; index++) {
+		const m = models[index];
+		if (!m || typeof m !== "object" || Array.isArray(m)) {
+			report(index, undefined, "Model entry must be an object.");
+			continue;
+		}
+		if (!m.id) {
+			report(index, undefined, 'Missing "id".');
+		}
+		if (!m.owned_by) {
+			report(index, undefined, 'Missing "owned_by".');
+		}
+
+		// The provider picks the first entry matching id and configId
+		const key = `${m.id}::${m.configId ?? ""}`;
+		const first = firstIndex.get(key);
+		if (first === undefined) {
+			firstIndex.set(key, index);
+		} else if (m.id) {
+			const base = m.owned_by?.toLowerCase() || "config";
+			let configId = base;
+			for (let n = 2; models.some((o) => o?.id === m.id && o.configId === configId); n++) {
+				configId = `${base}-${n}`;
+			}
+			report(
+				index,
+				m.configId !== undefined ? "configId" : "id",
+				`Duplicate model "${m.configId ? `${m.id}::${m.configId}` : m.id}", only entry ${first + 1} is used. ` +
+					"Give each entry a distinct configId.",
+				vscode.DiagnosticSeverity.Error,
+				[{ title: `Set configId to "${configId}"`, field: "configId", value: configId }]
+			);
+		}
+
+		for (const field of ["max_tokens", "max_completion_tokens"] as const) {
+			const value = m[field];
+			if (value !== undefined && m.context_length !== undefined && value >= m.context_length) {
+				const suggested = Math.max(1, Math.floor(m.context_length / 4));
+				report(
+					index,
+					field,
+					`${field} (${value}) must be below context_length (${m.context_length}), or no room is left for the prompt.`,
+					vscode.DiagnosticSeverity.Error,
+					[{ title: `Set ${field} to ${suggested}`, field, value: suggested }]
+				);
+			}
+		}
+
+		if (m.baseUrl && !isReplayUrl(m.baseUrl) && !/^https?:\/\//i.test(m.baseUrl)) {
+			const fixes: ModelConfigFix[] = m.baseUrl.includes("://")
+				? []
+				: [{ title: `Use "https://${m.baseUrl}"`, field: "baseUrl", value: `https://${m.baseUrl}` }];
+			report(
+				index,
+				"baseUrl",
+				`baseUrl "${m.baseUrl}" must start with http:// or https://.`,
+				vscode.DiagnosticSeverity.Error,
+				fixes
+			);
+		}
+
+		if (m.thinking !== undefined && m.enable_thinking !== undefined) {
+			report(
+				index,
+				"enable_thinking",
+				'Both "thinking" and "enable_thinking" are set. Providers read only one of them, keep the one yours documents.',
+				vscode.DiagnosticSeverity.Warning,
+				[
+					{ title: 'Remove "enable_thinking"', field: "enable_thinking", value: undefined },
+					{ title: 'Remove "thinking"', field: "thinking", value: undefined },
+				]
+			);
+		}
+
+		if (m.preset !== undefined && !findPreset(m)) {
+			report(
+				index,
+				"preset",
+				`Unknown preset "${m.preset}". Available presets: ${Object.keys(PROVIDER_PRESETS).join(", ")}.`
+			);
+		}
+
+		for (const ref of m.fallbacks ?? []) {
+			const found = models.some(
+				(o) => o && (o.id === ref || o.configId === ref || (o.configId && `${o.id}::${o.configId}` === ref))
+			);
+			if (!found) {
+				report(
+					index,
+					"fallbacks",
+					`Fallback model "${ref}" is not in oaicopilot.models and is skipped.`,
+					vscode.DiagnosticSeverity.Warning
+				);
+			}
+		}
+
+		// Local servers and recorded transcripts need no key
+		const resolved = applyPreset(m) ?? m;
+		if (
+			m.owned_by &&
+			resolved.apiMode !== "ollama" &&
+			!isReplayUrl(resolved.baseUrl) &&
+			findPreset(m)?.auth !== "none"
+		) {
+			const hasProviderKey = !!(await secrets.get(`oaicopilot.apiKey.${m.owned_by.toLowerCase()}`));
+			if (!hasProviderKey && (resolved.baseUrl || !hasGenericKey)) {
+				report(
+					index,
+					"owned_by",
+					resolved.baseUrl
+						? `No API key stored for "${m.owned_by}", the first request will ask for one.`
+						: `No API key stored for "${m.owned_by}" and no default API key is set.`,
+					vscode.DiagnosticSeverity.Warning,
+					[
+						resolved.baseUrl
+							? { title: `Set API key for ${m.owned_by}`, command: "oaicopilot.setProviderApikey" }
+							: { title: "Set default API key", command: "oaicopilot.setApikey" },
+					]
+				);
+			}
+		}
+	}
+	return problems;
+}
+
+/**
+ * Reports problems of `oaicopilot.models` as diagnostics on the settings files that define it, with
+ * quick fixes, and as a warning notification when they change.
+ */
+export class ModelConfigValidator implements vscode.CodeActionProvider, vscode.Disposable {
+	static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+	private readonly _diagnostics = vscode.languages.createDiagnosticCollection("oaicopilot");
+	/** Reported problems by settings file path. */
+	private _reported = new Map<string, { uri: vscode.Uri; problems: ReportedProblem[] }>();
+	/** Messages of the last notification, to avoid repeating it for the same problems. */
+	private _notified = "";
+	private _running: Promise<void> = Promise.resolve();
+
+	/**
+	 * @param secrets Secret storage holding the API keys.
+	 */
+	constructor(private readonly secrets: vscode.SecretStorage) {}
+
+	/**
+	 * Validate the user and workspace values of `oaicopilot.models`. Runs are queued so a burst of
+	 * configuration changes is handled in order.
+	 */
+	validate(): Promise<void> {
+		this._running = this._running.then(() =>
+			this.runValidation().catch((err) => logger.error("Failed to validate oaicopilot.models", err))
+		);
+		return this._running;
+	}
+
+	provideCodeActions(
+		document: vscode.TextDocument,
+		_range: vscode.Range | vscode.Selection,
+		context: vscode.CodeActionContext
+	): vscode.CodeAction[] {
+		const reported = this._reported.get(document.uri.path)?.problems ?? [];
+		const actions: vscode.CodeAction[] = [];
+		for (const diagnostic of context.diagnostics) {
+			if (diagnostic.source !== DIAGNOSTIC_SOURCE) {
+				continue;
+			}
+			const match = reported.find(
+				(r) => r.diagnostic.message === diagnostic.message && r.diagnostic.range.isEqual(diagnostic.range)
+			);
+			if (!match) {
+				continue;
+			}
+			for (const fix of match.problem.fixes) {
+				const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+				action.diagnostics = [diagnostic];
+				if ("command" in fix) {
+					action.command = { title: fix.title, command: fix.command };
+				} else {
+					action.edit = fixEdit(document, [...match.path, match.problem.index, fix.field], fix.value);
+				}
+				actions.push(action);
+			}
+		}
+		return actions;
+	}
+
+	/**
+	 * Show the diagnostics on the settings files.
+	 */
+	private publishDiagnostics(): void {
+		this._diagnostics.clear();
+		for (const { uri, problems } of this._reported.values()) {
+			this._diagnostics.set(
+				uri,
+				problems.map((r) => r.diagnostic)
+			);
+		}
+	}
+
+	dispose(): void {
+		this._diagnostics.dispose();
+	}
+
+	private async runValidation(): Promise<void> {
+		const scopes = this.settingsScopes();
+		const reported = new Map<string, { uri: vscode.Uri; problems: ReportedProblem[] }>();
+		const messages: string[] = [];
+
+		for (const scope of scopes) {
+			const problems = await validateModels(scope.models, this.secrets);
+			if (problems.length === 0) {
+				continue;
+			}
+			for (const p of problems) {
+				const m = scope.models[p.index];
+				const label = m?.id ? (m.configId ? `${m.id}::${m.configId}` : m.id) : `entry ${p.index + 1}`;
+				messages.push(`${label}: ${p.message}`);
+			}
+
+			const { uri } = scope;
+			if (!uri) {
+				continue;
+			}
+			let text: string;
+			try {
+				text =
+					vscode.workspace.textDocuments.find((doc) => doc.uri.toString() === uri.toString())?.getText() ??
+					new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+			} catch {
+				// The file was removed since the configuration was read, only notify
+				continue;
+			}
+			const root = parseTree(text);
+			if (!root) {
+				continue;
+			}
+			const list: ReportedProblem[] = [];
+			for (const problem of problems) {
+				const entry = findNodeAtLocation(root, [...scope.path, problem.index]);
+				if (!entry) {
+					continue;
+				}
+				const value = problem.field ? findNodeAtLocation(entry, [problem.field]) : undefined;
+				// Underline the whole property, or the opening brace of the entry
+				const node = value?.parent ?? value;
+				const start = node?.offset ?? entry.offset;
+				const end = node ? node.offset + node.length : entry.offset + 1;
+				const diagnostic = new vscode.Diagnostic(
+					new vscode.Range(positionAt(text, start), positionAt(text, end)),
+					problem.message,
+					problem.severity
+				);
+				diagnostic.source = DIAGNOSTIC_SOURCE;
+				list.push({ diagnostic, problem, path: scope.path });
+			}
+			reported.set(uri.path, { uri, problems: list });
+		}
+
+		this._reported = reported;
+		this.publishDiagnostics();
+
+		const summary = messages.join("\n");
+		if (summary === this._notified) {
+			return;
+		}
+		this._notified = summary;
+		if (messages.length === 0) {
+			return;
+		}
+		logger.warn(`oaicopilot.models has ${messages.length} problem(s)`, messages);
+		const show = "Show Problems";
+		const more = messages.length > 1 ? ` (and ${messages.length - 1} more)` : "";
+		void vscode.window
+			.showWarningMessage(`oaicopilot.models: ${messages[0]}${more}`, show)
+			.then((choice) => choice === show && vscode.commands.executeCommand("workbench.actions.view.problems"));
+	}
+
+	/**
+	 * The user and workspace values of `oaicopilot.models` with the files they are defined in.
+	 */
+	private settingsScopes(): SettingsScope[] {
+		const inspected = vscode.workspace.getConfiguration().inspect<HFModelItem[]>("oaicopilot.models");
+		const scopes: SettingsScope[] = [];
+		if (Array.isArray(inspected?.globalValue)) {
+			const models = inspected.globalValue;
+			// The location of the user settings depends on the active profile and is not exposed, so
+			// they get diagnostics only while an editor of them is open
+			const doc = vscode.workspace.textDocuments.find((d) => {
+				const root = isUserSettingsDocument(d) ? parseTree(d.getText()) : undefined;
+				const node = root && findNodeAtLocation(root, ["oaicopilot.models"]);
+				return node !== undefined && isDeepStrictEqual(getNodeValue(node), models);
+			});
+			scopes.push({ models, uri: doc?.uri, path: ["oaicopilot.models"] });
+		}
+		if (Array.isArray(inspected?.workspaceValue)) {
+			const workspaceFile = vscode.workspace.workspaceFile;
+			const folder = vscode.workspace.workspaceFolders?.[0];
+			if (workspaceFile && workspaceFile.scheme !== "untitled") {
+				scopes.push({
+					models: inspected.workspaceValue,
+					uri: workspaceFile,
+					path: ["settings", "oaicopilot.models"],
+				});
+			} else if (folder) {
+				scopes.push({
+					models: inspected.workspaceValue,
+					uri: vscode.Uri.joinPath(folder.uri, ".vscode", "settings.json"),
+					path: ["oaicopilot.models"],
+				});
+			}
+		}
+		return scopes;
+	}
+}
+
+/**
+ * Whether the document is an editor of a user `settings.json`, of the active or another profile.
+ */
+export function isUserSettingsDocument(doc: vscode.TextDocument): boolean {
+	return doc.uri.scheme === "vscode-userdata" && doc.uri.path.endsWith("/settings.json");
+}
+
+/**
+ * Build the edit setting or removing a property in a settings file, keeping its indentation.
+ */
+function fixEdit(document: vscode.TextDocument, path: JSONPath, value: unknown): vscode.WorkspaceEdit {
+	const text = document.getText();
+	const indent = /^([ \t]+)"/m.exec(text)?.[1];
+	const edits = modify(text, path, value, {
+		formattingOptions: {
+			insertSpaces: !indent?.startsWith("\t"),
+			tabSize: indent && !indent.startsWith("\t") ? indent.length : 4,
+			eol: text.includes("\r\n") ? "\r\n" : "\n",
+		},
+	});
+	const edit = new vscode.WorkspaceEdit();
+	for (const e of edits) {
+		const range = new vscode.Range(document.positionAt(e.offset), document.positionAt(e.offset + e.length));
+		edit.replace(document.uri, range, e.content);
+	}
+	return edit;
+}
+
+function positionAt(text: string, offset: number): vscode.Position {
+	const before = text.slice(0, offset);
+	const line = before.split("\n").length - 1;
+	return new vscode.Position(line, offset - (before.lastIndexOf("\n") + 1));
+}
@@ -0,0 +1,255 @@
+import * as vscode from "vscode";
+import { CancellationToken, LanguageModelChatInformation, LanguageModelChatRequestMessage } from "vscode";
+
+import type { ContextGuardConfig, ContextGuardStrategy, HFModelItem } from "./types";
+import { countTextTokens, prepareTokenCount, resolveTokenizer } from "./provideToken";
+import { collectToolResultText, isToolResultPart, mapRole } from "./utils";
+import { logger } from "./logger";
+
+const DEFAULT_STRATEGIES: ContextGuardStrategy[] = ["truncate_tool_results", "drop_tool_calls", "drop_turns"];
+
+const DEFAULT_TOOL_RESULT_MAX_TOKENS = 4000;
+
+/**
+ * Messages of a request after the context-window guard ran.
+ */
+export interface ContextGuardResult {
+	messages: readonly LanguageModelChatRequestMessage[];
+	/** Estimated prompt tokens of the messages and tool definitions. */
+	promptTokens: number;
+	/** What was removed, to show in the chat. Undefined when the request was left untouched. */
+	notice: string | undefined;
+}
+
+interface MessageEntry {
+	message: LanguageModelChatRequestMessage;
+	tokens: number;
+}
+
+/**
+ * Create context guard configuration from VS Code workspace settings.
+ * @returns Context guard configuration with default values.
+ */
+export function createContextGuardConfig(): Required<ContextGuardConfig> {
+	const config = vscode.workspace.getConfiguration();
+	const guardConfig = config.get<ContextGuardConfig>("oaicopilot.contextGuard", {});
+
+	return {
+		enabled: guardConfig.enabled ?? true,
+		strategies: guardConfig.strategies ?? DEFAULT_STRATEGIES,
+		tool_result_max_tokens: guardConfig.tool_result_max_tokens ?? DEFAULT_TOOL_RESULT_MAX_TOKENS,
+	};
+}
+
+/**
+ * Estimate the size of a request and, if it exceeds the model's `maxInputTokens`, shrink the history
+ * with the configured strategies. Tool calls stay paired with their results, so the result still
+ * passes `validateRequest`. If nothing helps, the messages are sent as they are.
+ * @param model The language model the request is sent to.
+ * @param messages The chat messages.
+ * @param toolTokens Estimated tokens of the tool definitions.
+ * @param token Cancellation token.
+ * @param um The model configuration, if any.
+ */
+export async function guardContextWindow(
+	model: LanguageModelChatInformation,
+	messages: readonly LanguageModelChatRequestMessage[],
+	toolTokens: number,
+	token: CancellationToken,
+	um: HFModelItem | undefined
+): Promise<ContextGuardResult> {
+	const config = createContextGuardConfig();
+	const countMessage = (message: LanguageModelChatRequestMessage) => prepareTokenCount(model, message, token, um);
+
+	let entries: MessageEntry[] = [];
+	for (const message of messages) {
+		entries.push({ message, tokens: await countMessage(message) });
+	}
+	const total = () => entries.reduce((sum, e) => sum + e.tokens, toolTokens);
+
+	const limit = model.maxInputTokens;
+	const before = total();
+	if (!config.enabled || before <= limit) {
+		return { messages, promptTokens: before, notice: undefined };
+	}
+
+	const removed: string[] = [];
+	for (const strategy of config.strategies) {
+		if (total() <= limit) {
+			break;
+		}
+		if (strategy === "truncate_tool_results") {
+			const tokenizer = resolveTokenizer(um, model);
+			let truncated = 0;
+			for (let i = 0; i < entries.length && total() > limit; i++) {
+				const parts = entries[i].message.content;
+				let changed = false;
+				const nextParts: unknown[] = [];
+				for (const part of parts) {
+					if (isToolResultPart(part)) {
+						const text = collectToolResultText(part);
+						const tokens = await countTextTokens(text, tokenizer);
+						if (tokens > config.tool_result_max_tokens) {
+							const excerpt = excerptText(text, tokens, config.tool_result_max_tokens);
+							nextParts.push(
+								new vscode.LanguageModelToolResultPart(part.callId, [new vscode.LanguageModelTextPart(excerpt)])
+							);
+							changed = true;
+							truncated++;
+							continue;
+						}
+					}
+					nextParts.push(part);
+				}
+				if (changed) {
+					const message = withContent(entries[i].message, nextParts);
+					entries[i] = { message, tokens: await countMessage(message) };
+				}
+			}
+			if (truncated > 0) {
+				removed.push(`truncated ${plural(truncated, "tool result")}`);
+			}
+		} else if (strategy === "drop_tool_calls") {
+			let dropped = 0;
+			while (total() > limit) {
+				const count = await dropOldestToolCalls(entries, countMessage);
+				if (count === 0) {
+					break;
+				}
+				dropped += count;
+			}
+			if (dropped > 0) {
+				removed.push(`dropped ${plural(dropped, "old tool call")}`);
+			}
+		} else if (strategy === "drop_turns") {
+			let dropped = 0;
+			while (total() > limit) {
+				const next = dropOldestTurn(entries);
+				if (!next) {
+					break;
+				}
+				entries = next;
+				dropped++;
+			}
+			if (dropped > 0) {
+				removed.push(`dropped ${plural(dropped, "old turn")}`);
+			}
+		}
+	}
+
+	const after = total();
+	logger.warn(
+		`Request of ~${before} tokens exceeds ${limit} input tokens, ` +
+			`shrunk to ~${after}: ${removed.join(", ") || "nothing removable"}`
+	);
+	if (removed.length === 0) {
+		return { messages, promptTokens: before, notice: undefined };
+	}
+
+	const summary = removed.join(", ");
+	const notice =
+		after <= limit
+			? `*Context trimmed to fit ${limit} input tokens: ${summary}.*\n\n`
+			: `*Context still exceeds ${limit} input tokens after trimming (${summary}).*\n\n`;
+	return { messages: entries.map((e) => e.message), promptTokens: after, notice };
+}
+
+/**
+ * Keep the head and tail of a text, cut to roughly the given number of tokens.
+ */
+function excerptText(text: string, tokens: number, maxTokens: number): string {
+	const keepChars = Math.floor((text.length * maxTokens) / tokens);
+	const headChars = Math.ceil(keepChars / 2);
+	const tailChars = keepChars - headChars;
+	const omitted = text.length - keepChars;
+	return (
+		`${text.slice(0, headChars)}\n\n[... ${omitted} characters omitted to fit the context window ...]\n\n` +
+		text.slice(text.length - tailChars)
+	);
+}
+
+/**
+ * Remove the tool calls of the oldest assistant message that has any, together with their results.
+ * The most recent tool calls are kept so the model sees what it just did.
+ * @returns The number of removed tool calls.
+ */
+async function dropOldestToolCalls(
+	entries: MessageEntry[],
+	countMessage: (message: LanguageModelChatRequestMessage) => Promise<number>
+): Promise<number> {
+	const callIndices = entries
+		.map((e, i) => (hasToolCalls(e.message) ? i : -1))
+		.filter((i) => i >= 0)
+		.slice(0, -1);
+	if (callIndices.length === 0) {
+		return 0;
+	}
+
+	const index = callIndices[0];
+	const callIds = new Set<string>();
+	for (const part of entries[index].message.content) {
+		if (part instanceof vscode.LanguageModelToolCallPart) {
+			callIds.add(part.callId);
+		}
+	}
+
+	// Keep what the assistant said, drop the calls and any reasoning tied to them
+	const text = entries[index].message.content.filter((p) => p instanceof vscode.LanguageModelTextPart);
+	const replacements = new Map<number, LanguageModelChatRequestMessage | undefined>();
+	replacements.set(index, text.length > 0 ? withContent(entries[index].message, text) : undefined);
+
+	for (let i = index + 1; i < entries.length; i++) {
+		const content = entries[i].message.content;
+		const kept = content.filter((p) => !(isToolResultPart(p) && callIds.has(p.callId)));
+		if (kept.length !== content.length) {
+			replacements.set(i, kept.length > 0 ? withContent(entries[i].message, kept) : undefined);
+		}
+	}
+
+	for (const i of Array.from(replacements.keys()).sort((a, b) => b - a)) {
+		const message = replacements.get(i);
+		if (message) {
+			entries[i] = { message, tokens: await countMessage(message) };
+		} else {
+			entries.splice(i, 1);
+		}
+	}
+	return callIds.size;
+}
+
+/**
+ * Remove the oldest turn: everything from the first non-system message up to the next user prompt.
+ * System messages and the latest turn are kept.
+ * @returns The remaining entries, or undefined if there is no turn left to drop.
+ */
+function dropOldestTurn(entries: MessageEntry[]): MessageEntry[] | undefined {
+	const first = entries.findIndex((e) => mapRole(e.message) !== "system");
+	if (first < 0) {
+		return undefined;
+	}
+	const next = entries.findIndex((e, i) => i > first && isUserPrompt(e.message));
+	if (next < 0) {
+		return undefined;
+	}
+	return [...entries.slice(0, first), ...entries.slice(next)];
+}
+
+function hasToolCalls(message: LanguageModelChatRequestMessage): boolean {
+	return (
+		message.role === vscode.LanguageModelChatMessageRole.Assistant &&
+		message.content.some((p) => p instanceof vscode.LanguageModelToolCallPart)
+	);
+}
+
+/** A user message written by the user, as opposed to one carrying only tool results. */
+function isUserPrompt(message: LanguageModelChatRequestMessage): boolean {
+	return message.role === vscode.LanguageModelChatMessageRole.User && message.content.some((p) => !isToolResultPart(p));
+}
+
+function withContent(message: LanguageModelChatRequestMessage, content: unknown[]): LanguageModelChatRequestMessage {
+	return { role: message.role, name: message.name, content };
+}
+
+function plural(count: number, noun: string): string {
+	return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
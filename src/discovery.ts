@@ -0,0 +1,366 @@
+import * as vscode from "vscode";
+
+import type { HFArchitecture, HFModelItem, HFProvider, ModelDiscoveryConfig, ModelPricing } from "./types";
+import { applyPreset } from "./presets";
+import { logger } from "./logger";
+
+const MODEL_CACHE_KEY = "oaicopilot.modelCache";
+
+const DEFAULT_TTL_MINUTES = 24 * 60;
+
+/** Timeout of a `/models` request, so an endpoint that never answers doesn't block the model list. */
+const DISCOVERY_TIMEOUT_MS = 15_000;
+
+/** Ids of `/models` entries that cannot chat, such as embedding or speech models. */
+const NON_CHAT_MODEL_PATTERN = /embed|whisper|tts|dall-e|moderation|transcribe|rerank/i;
+
+/**
+ * A `/models` entry in any of the supported schemas: plain OpenAI, the Hugging Face router
+ * (`providers`, `architecture`) or OpenRouter (`context_length`, `supported_parameters`, `pricing`).
+ */
+interface RemoteModel {
+	id: string;
+	owned_by?: string;
+	context_length?: number;
+	architecture?: HFArchitecture;
+	providers?: HFProvider[];
+	top_provider?: { context_length?: number | null };
+	supported_parameters?: string[];
+	/** USD per token, as decimal strings. */
+	pricing?: { prompt?: string; completion?: string; input_cache_read?: string; internal_reasoning?: string };
+}
+
+/**
+ * A base URL and provider whose `/models` endpoint is queried. Discovered models inherit its settings.
+ */
+interface DiscoveryEndpoint {
+	key: string;
+	baseUrl: string;
+	/** Settings copied to every discovered model. */
+	template: Partial<HFModelItem>;
+}
+
+interface CachedEndpoint {
+	fetchedAt: number;
+	models: HFModelItem[];
+}
+
+type ModelCache = Record<string, CachedEndpoint>;
+
+/**
+ * Create model discovery configuration from VS Code workspace settings.
+ * @returns Model discovery configuration with default values.
+ */
+export function createModelDiscoveryConfig(): Required<ModelDiscoveryConfig> {
+	const config = vscode.workspace.getConfiguration();
+	const discoveryConfig = config.get<ModelDiscoveryConfig>("oaicopilot.modelDiscovery", {});
+
+	return {
+		enabled: discoveryConfig.enabled ?? false,
+		ttl_minutes: discoveryConfig.ttl_minutes ?? DEFAULT_TTL_MINUTES,
+	};
+}
+
+/**
+ * Discovers models from the `/models` endpoint of every configured provider and caches them in
+ * `globalState`. Without configured models, the global `oaicopilot.baseUrl` is queried.
+ */
+export class ModelDiscovery implements vscode.Disposable {
+	private readonly _onDidChange = new vscode.EventEmitter<void>();
+
+	/** Fires after the cache was rebuilt. */
+	readonly onDidChange = this._onDidChange.event;
+
+	constructor(
+		private readonly state: vscode.Memento,
+		private readonly secrets: vscode.SecretStorage,
+		private readonly userAgent: string
+	) {}
+
+	/**
+	 * Configured models merged with discovered models, fetching endpoints whose cache expired.
+	 * @param configuredModels The configured models.
+	 * @param globalApiKey API key for the global base URL, given only when no models are configured.
+	 * @throws When the global base URL cannot be queried.
+	 */
+	async discover(configuredModels: HFModelItem[], globalApiKey?: string): Promise<HFModelItem[]> {
+		const useGlobal = globalApiKey !== undefined;
+		const endpoints = this.resolveEndpoints(configuredModels, useGlobal);
+		const ttlMs = createModelDiscoveryConfig().ttl_minutes * 60_000;
+		const cache = this.readCache();
+		const stale = endpoints.filter((e) => !cache[e.key] || Date.now() - cache[e.key].fetchedAt > ttlMs);
+
+		if (stale.length > 0) {
+			await this.fetchEndpoints(stale, cache, useGlobal, globalApiKey);
+		}
+		return mergeDiscoveredModels(configuredModels, endpoints, cache);
+	}
+
+	/**
+	 * Configured models merged with the cached discovered models, without any network request.
+	 * Used to resolve the model of a chat request.
+	 * @param configuredModels The configured models.
+	 */
+	cachedModels(configuredModels: HFModelItem[]): HFModelItem[] {
+		const endpoints = this.resolveEndpoints(configuredModels, configuredModels.length === 0);
+		return mergeDiscoveredModels(configuredModels, endpoints, this.readCache());
+	}
+
+	/**
+	 * Query every endpoint again and rebuild the cache.
+	 * @param configuredModels The configured models.
+	 * @returns The number of discovered models.
+	 */
+	async refresh(configuredModels: HFModelItem[]): Promise<number> {
+		const useGlobal = configuredModels.length === 0;
+		const endpoints = this.resolveEndpoints(configuredModels, useGlobal);
+		// Endpoints that fail keep their previous entry
+		const cache = this.readCache();
+		const apiKey = useGlobal ? await this.secrets.get("oaicopilot.apiKey") : undefined;
+		await this.fetchEndpoints(endpoints, cache, useGlobal, apiKey);
+		this._onDidChange.fire();
+		return endpoints.reduce((sum, e) => sum + (cache[e.key]?.models.length ?? 0), 0);
+	}
+
+	/**
+	 * List the models of one endpoint without caching them, for the model manager's picker.
+	 * @param baseUrl The base URL, empty for the global `oaicopilot.baseUrl`.
+	 * @param ownedBy The provider whose API key is used.
+	 * @param headers Custom headers of the model.
+	 */
+	async listModels(baseUrl: string, ownedBy: string, headers?: Record<string, string>): Promise<HFModelItem[]> {
+		const resolved = baseUrl || vscode.workspace.getConfiguration().get<string>("oaicopilot.baseUrl", "");
+		const apiKey =
+			(ownedBy ? await this.secrets.get(`oaicopilot.apiKey.${ownedBy.toLowerCase()}`) : undefined) ??
+			(await this.secrets.get("oaicopilot.apiKey"));
+		const endpoint = { key: "", baseUrl: resolved, template: { owned_by: ownedBy, headers } };
+		return fetchRemoteModels(endpoint, apiKey, this.userAgent);
+	}
+
+	dispose(): void {
+		this._onDidChange.dispose();
+	}
+
+	private readCache(): ModelCache {
+		return { ...this.state.get<ModelCache>(MODEL_CACHE_KEY, {}) };
+	}
+
+	/**
+	 * The endpoints to query: the global base URL when no models are configured, otherwise each distinct
+	 * base URL and `owned_by` of the configured OpenAI-compatible models when discovery is enabled.
+	 */
+	private resolveEndpoints(configuredModels: HFModelItem[], useGlobal: boolean): DiscoveryEndpoint[] {
+		const globalBaseUrl = vscode.workspace.getConfiguration().get<string>("oaicopilot.baseUrl", "");
+		if (useGlobal) {
+			const baseUrl = globalBaseUrl.replace(/\/+$/, "");
+			return baseUrl.startsWith("http") ? [{ key: `${baseUrl}|`, baseUrl, template: {} }] : [];
+		}
+		if (!createModelDiscoveryConfig().enabled) {
+			return [];
+		}
+
+		const endpoints = new Map<string, DiscoveryEndpoint>();
+		for (const entry of configuredModels) {
+			const m = applyPreset(entry) ?? entry;
+			const apiMode = m.apiMode ?? "openai";
+			const baseUrl = m.baseUrl || globalBaseUrl;
+			if ((apiMode !== "openai" && apiMode !== "responses") || !baseUrl.startsWith("http")) {
+				continue;
+			}
+			const key = `${baseUrl.replace(/\/+$/, "")}|${m.owned_by.toLowerCase()}`;
+			if (!endpoints.has(key)) {
+				endpoints.set(key, {
+					key,
+					baseUrl,
+					template: {
+						owned_by: m.owned_by,
+						baseUrl: m.baseUrl,
+						apiMode: m.apiMode,
+						headers: m.headers,
+						preset: m.preset,
+					},
+				});
+			}
+		}
+		return Array.from(endpoints.values());
+	}
+
+	private async fetchEndpoints(
+		endpoints: DiscoveryEndpoint[],
+		cache: ModelCache,
+		throwOnError: boolean,
+		apiKey: string | undefined
+	): Promise<void> {
+		for (const endpoint of endpoints) {
+			try {
+				const provider = endpoint.template.owned_by;
+				const key =
+					apiKey ??
+					(provider ? await this.secrets.get(`oaicopilot.apiKey.${provider.toLowerCase()}`) : undefined) ??
+					(await this.secrets.get("oaicopilot.apiKey"));
+				const models = await fetchRemoteModels(endpoint, key, this.userAgent);
+				cache[endpoint.key] = { fetchedAt: Date.now(), models };
+				logger.info(`Discovered ${models.length} models from ${endpoint.baseUrl}`);
+			} catch (err) {
+				logger.error(`Failed to discover models from ${endpoint.baseUrl}`, err);
+				// Keep serving the stale entry rather than dropping the models. An endpoint that timed out
+				// lists no models.
+				const timedOut = err instanceof Error && err.name === "TimeoutError";
+				if (throwOnError && !timedOut && !cache[endpoint.key]) {
+					throw err;
+				}
+			}
+		}
+		await this.state.update(MODEL_CACHE_KEY, cache);
+	}
+}
+
+/**
+ * Fetch and parse the `/models` listing of an endpoint.
+ */
+async function fetchRemoteModels(
+	endpoint: DiscoveryEndpoint,
+	apiKey: string | undefined,
+	userAgent: string
+): Promise<HFModelItem[]> {
+	const headers: Record<string, string> = { "User-Agent": userAgent, ...endpoint.template.headers };
+	if (apiKey) {
+		headers.Authorization = `Bearer ${apiKey}`;
+	}
+	const resp = await fetch(`${endpoint.baseUrl.replace(/\/+$/, "")}/models`, {
+		method: "GET",
+		headers,
+		signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS),
+	});
+	if (!resp.ok) {
+		let text = "";
+		try {
+			text = await resp.text();
+		} catch (error) {
+			logger.error("Failed to read response text", error);
+		}
+		throw new Error(
+			`Failed to fetch OAI Compatible models: ${resp.status} ${resp.statusText}${text ? `\n${text}` : ""}`
+		);
+	}
+	const parsed = (await resp.json()) as { data?: RemoteModel[] };
+	return (parsed.data ?? []).flatMap((m) => toModelItems(m, endpoint));
+}
+
+/**
+ * Convert a `/models` entry to model configurations. A Hugging Face router entry becomes one
+ * model per provider with tool support.
+ */
+function toModelItems(m: RemoteModel, endpoint: DiscoveryEndpoint): HFModelItem[] {
+	if (!m?.id || NON_CHAT_MODEL_PATTERN.test(m.id)) {
+		return [];
+	}
+	// OpenRouter lists the parameters a model accepts, skip models that cannot call tools
+	if (Array.isArray(m.supported_parameters) && !m.supported_parameters.includes("tools")) {
+		return [];
+	}
+
+	const modalities = m.architecture?.input_modalities;
+	const vision = Array.isArray(modalities) ? modalities.includes("image") : undefined;
+	const base: HFModelItem = {
+		...endpoint.template,
+		id: m.id,
+		owned_by: endpoint.template.owned_by ?? m.owned_by ?? "oai-compatible",
+		context_length: m.context_length ?? m.top_provider?.context_length ?? undefined,
+		vision,
+		pricing: toPricing(m.pricing),
+	};
+
+	const providers = m.providers ?? [];
+	const toolProviders = providers.filter((p) => p.supports_tools === true);
+	if (toolProviders.length > 0) {
+		return toolProviders.map((p) => ({
+			...base,
+			id: `${m.id}:${p.provider}`,
+			owned_by: endpoint.template.owned_by ?? p.provider,
+			context_length: p.context_length ?? base.context_length,
+		}));
+	}
+	if (providers.length > 0) {
+		return [{ ...base, context_length: providers[0].context_length ?? base.context_length }];
+	}
+	return [base];
+}
+
+/**
+ * Convert OpenRouter per-token prices to prices per million tokens.
+ */
+function toPricing(pricing: RemoteModel["pricing"]): ModelPricing | undefined {
+	const perMillion = (value: string | undefined) => {
+		const n = value === undefined ? NaN : Number(value);
+		return Number.isFinite(n) && n >= 0 ? Math.round(n * 1e6 * 1e6) / 1e6 : undefined;
+	};
+	const input = perMillion(pricing?.prompt);
+	const output = perMillion(pricing?.completion);
+	if (input === undefined && output === undefined) {
+		return undefined;
+	}
+	const reasoning = perMillion(pricing?.internal_reasoning);
+	return {
+		input,
+		output,
+		cached_input: perMillion(pricing?.input_cache_read),
+		reasoning: reasoning ? reasoning : undefined,
+	};
+}
+
+/**
+ * Merge discovered models into the configured ones. Configured entries override the discovered
+ * entry with the same id and endpoint, and discovered metadata fills the fields they leave unset.
+ * @param configuredModels The configured models.
+ * @param endpoints The endpoints the configured models resolve to.
+ * @param cache The discovered models per endpoint.
+ */
+function mergeDiscoveredModels(
+	configuredModels: HFModelItem[],
+	endpoints: DiscoveryEndpoint[],
+	cache: ModelCache
+): HFModelItem[] {
+	const globalBaseUrl = vscode.workspace.getConfiguration().get<string>("oaicopilot.baseUrl", "");
+	const endpointKey = (m: HFModelItem) =>
+		`${(applyPreset(m)?.baseUrl || globalBaseUrl).replace(/\/+$/, "")}|${m.owned_by.toLowerCase()}`;
+
+	const discovered = new Map<string, HFModelItem>();
+	for (const endpoint of endpoints) {
+		for (const m of cache[endpoint.key]?.models ?? []) {
+			discovered.set(`${endpoint.key}|${m.id}`, m);
+		}
+	}
+
+	const merged: HFModelItem[] = [];
+	const overridden = new Set<string>();
+	const ids = new Set(configuredModels.filter((m) => !m.configId).map((m) => m.id));
+	for (const m of configuredModels) {
+		const key = `${endpointKey(m)}|${m.id}`;
+		const found = discovered.get(key);
+		if (found) {
+			overridden.add(key);
+			merged.push({
+				...m,
+				context_length: m.context_length ?? found.context_length,
+				vision: m.vision ?? found.vision,
+				pricing: m.pricing ?? found.pricing,
+			});
+		} else {
+			merged.push(m);
+		}
+	}
+	for (const [key, m] of discovered) {
+		if (overridden.has(key)) {
+			continue;
+		}
+		// The same id from another endpoint is told apart by its provider, like a configId
+		if (ids.has(m.id)) {
+			merged.push({ ...m, configId: m.owned_by.toLowerCase() });
+		} else {
+			ids.add(m.id);
+			merged.push(m);
+		}
+	}
+	return merged;
+}
@@ -1,8 +1,19 @@
 import * as vscode from "vscode";
 import { HuggingFaceChatModelProvider } from "./provider";
 import type { HFModelItem } from "./types";
+import { UsageLedger, buildUsageReport, createUsageStatusBarItem } from "./usage";
+import { initLogger, showLogs } from "./logger";
+import { StreamRecorder } from "./recorder";
+import { ModelDiscovery, createModelDiscoveryConfig } from "./discovery";
+import { testModel } from "./modelTest";
+import { ModelConfigValidator, isUserSettingsDocument } from "./configValidator";
+import { ModelManagerPanel } from "./modelManager";
+import { PROVIDER_PRESETS, addPresetModel } from "./presets";
+import { ParameterCompatibility } from "./paramCompat";
 
 export function activate(context: vscode.ExtensionContext) {
+	context.subscriptions.push(initLogger());
+
 	// Build a descriptive User-Agent to help quantify API usage
 	const ext = vscode.extensions.getExtension("johnny-zhao.oai-compatible-copilot");
 	const extVersion = ext?.packageJSON?.version ?? "unknown";
@@ -10,10 +21,64 @@ export function activate(context: vscode.ExtensionContext) {
 	// Keep UA minimal: only extension version and VS Code version
 	const ua = `oai-compatible-copilot/${extVersion} VSCode/${vscodeVersion}`;
 
-	const provider = new HuggingFaceChatModelProvider(context.secrets, ua);
+	// Token usage per model, provider and day, persisted across sessions
+	const usageLedger = new UsageLedger(context.globalState);
+	context.subscriptions.push(usageLedger, createUsageStatusBarItem(usageLedger));
+
+	// Transcripts of oaicopilot.recordStreams, replayed with baseUrl "replay://<file>"
+	const streamRecorder = new StreamRecorder(vscode.Uri.joinPath(context.globalStorageUri, "recordings"));
+
+	// Models discovered from the /models endpoints, cached in globalState
+	const modelDiscovery = new ModelDiscovery(context.globalState, context.secrets, ua);
+	context.subscriptions.push(modelDiscovery);
+
+	// Request parameters rejected by a model, omitted from its later requests
+	const parameterCompat = new ParameterCompatibility(context.globalState);
+
+	const provider = new HuggingFaceChatModelProvider(
+		context.secrets,
+		ua,
+		usageLedger,
+		streamRecorder,
+		modelDiscovery,
+		parameterCompat
+	);
 	// Register the Hugging Face provider under the vendor id used in package.json
 	vscode.lm.registerLanguageModelChatProvider("oaicopilot", provider);
 
+	// Diagnostics and quick fixes for oaicopilot.models
+	const configValidator = new ModelConfigValidator(context.secrets);
+	context.subscriptions.push(
+		configValidator,
+		vscode.languages.registerCodeActionsProvider(
+			[{ pattern: "**/settings.json" }, { pattern: "**/*.code-workspace" }],
+			configValidator,
+			{ providedCodeActionKinds: ModelConfigValidator.providedCodeActionKinds }
+		),
+		vscode.workspace.onDidChangeConfiguration((e) => {
+			if (e.affectsConfiguration("oaicopilot.models")) {
+				void configValidator.validate();
+			}
+		}),
+		context.secrets.onDidChange((e) => {
+			if (e.key.startsWith("oaicopilot.apiKey")) {
+				void configValidator.validate();
+			}
+		}),
+		// Diagnostics of the user settings are only placed while an editor of them is open
+		vscode.workspace.onDidOpenTextDocument((doc) => {
+			if (isUserSettingsDocument(doc)) {
+				void configValidator.validate();
+			}
+		}),
+		vscode.workspace.onDidCloseTextDocument((doc) => {
+			if (isUserSettingsDocument(doc)) {
+				void configValidator.validate();
+			}
+		})
+	);
+	void configValidator.validate();
+
 	// Management command to configure API key
 	context.subscriptions.push(
 		vscode.commands.registerCommand("oaicopilot.setApikey", async () => {
@@ -50,22 +115,31 @@ export function activate(context: vscode.ExtensionContext) {
 				new Set(userModels.map((m) => m.owned_by.toLowerCase()).filter((p) => p && p.trim() !== ""))
 			).sort();
 
-			if (providers.length === 0) {
-				vscode.window.showErrorMessage(
-					"No providers found in oaicopilot.models configuration. Please configure models first."
-				);
-				return;
-			}
+			// Configured providers first, then the presets not configured yet
+			const items: (vscode.QuickPickItem & { provider?: string; isPreset?: boolean })[] = [
+				...providers.map((p) => ({ label: p, provider: p })),
+				{ label: "Presets", kind: vscode.QuickPickItemKind.Separator },
+				...Object.entries(PROVIDER_PRESETS)
+					.filter(([id]) => !providers.includes(id))
+					.map(([id, preset]) => ({ label: preset.label, description: preset.baseUrl, provider: id, isPreset: true })),
+			];
 
 			// Let user select provider
-			const selectedProvider = await vscode.window.showQuickPick(providers, {
+			const picked = await vscode.window.showQuickPick(items, {
 				title: "Select Provider",
 				placeHolder: "Select a provider to configure API key",
 			});
 
-			if (!selectedProvider) {
+			if (!picked?.provider) {
 				return; // user canceled
 			}
+			const selectedProvider = picked.provider;
+
+			// Local servers need no key, only a model
+			if (picked.isPreset && PROVIDER_PRESETS[selectedProvider].auth === "none") {
+				await addPresetModel(selectedProvider);
+				return;
+			}
 
 			// Get existing API key for selected provider
 			const providerKey = `oaicopilot.apiKey.${selectedProvider}`;
@@ -92,6 +166,76 @@ export function activate(context: vscode.ExtensionContext) {
 
 			await context.secrets.store(providerKey, apiKey.trim());
 			vscode.window.showInformationMessage(`API key for ${selectedProvider} saved.`);
+
+			if (picked.isPreset) {
+				await addPresetModel(selectedProvider);
+			}
+		})
+	);
+
+	// Usage breakdown by model, provider and workspace
+	context.subscriptions.push(
+		vscode.commands.registerCommand("oaicopilot.showUsage", async () => {
+			const doc = await vscode.workspace.openTextDocument({
+				content: buildUsageReport(usageLedger),
+				language: "markdown",
+			});
+			await vscode.window.showTextDocument(doc, { preview: true });
+		})
+	);
+
+	context.subscriptions.push(vscode.commands.registerCommand("oaicopilot.showLogs", () => showLogs()));
+
+	// Rebuild the discovered models cache
+	context.subscriptions.push(
+		vscode.commands.registerCommand("oaicopilot.refreshModels", async () => {
+			const userModels = vscode.workspace.getConfiguration().get<HFModelItem[]>("oaicopilot.models", []);
+			if (userModels.length > 0 && !createModelDiscoveryConfig().enabled) {
+				vscode.window.showInformationMessage(
+					"Model discovery is disabled. Enable it in oaicopilot.modelDiscovery to list the models of your providers."
+				);
+				return;
+			}
+			try {
+				const count = await vscode.window.withProgress(
+					{ location: vscode.ProgressLocation.Notification, title: "Refreshing OAI Compatible models" },
+					() => modelDiscovery.refresh(userModels)
+				);
+				vscode.window.showInformationMessage(`Discovered ${count} OAI Compatible models.`);
+			} catch (err) {
+				vscode.window.showErrorMessage(
+					`Failed to refresh OAI Compatible models: ${err instanceof Error ? err.message : String(err)}`
+				);
+			}
+		})
+	);
+
+	// Form based editor of oaicopilot.models with API keys and connection tests
+	context.subscriptions.push(
+		vscode.commands.registerCommand("oaicopilot.manageModels", () =>
+			ModelManagerPanel.show(context.extensionUri, context.secrets, provider, modelDiscovery)
+		)
+	);
+
+	// Probe a model's capabilities and speed through the normal request path
+	context.subscriptions.push(vscode.commands.registerCommand("oaicopilot.testModel", () => testModel(provider)));
+
+	// Send the learned unsupported parameters again, e.g. after a provider added support
+	context.subscriptions.push(
+		vscode.commands.registerCommand("oaicopilot.resetUnsupportedParams", async () => {
+			const count = await parameterCompat.reset();
+			vscode.window.showInformationMessage(
+				count > 0
+					? `Forgot ${count} learned unsupported parameters. They are sent again with the next requests.`
+					: "No unsupported parameters have been learned."
+			);
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand("oaicopilot.openRecordings", async () => {
+			await vscode.workspace.fs.createDirectory(streamRecorder.recordingsUri);
+			await vscode.commands.executeCommand("revealFileInOS", streamRecorder.recordingsUri);
 		})
 	);
 }
@@ -0,0 +1,355 @@
+import * as vscode from "vscode";
+import { LanguageModelResponsePart2, Progress, ProvideLanguageModelChatResponseOptions } from "vscode";
+
+import type {
+	GeminiContent,
+	GeminiFunctionDeclaration,
+	GeminiPart,
+	HFModelItem,
+	StreamDecoder,
+	TokenUsage,
+} from "./types";
+
+import { convertTools, collectToolResultText, isImageMimeType, isToolResultPart, mapRole } from "./utils";
+
+/**
+ * Convert VS Code chat request messages into Gemini `contents`.
+ * Thought signatures captured from earlier responses are re-attached to the function calls they arrived on.
+ * @param messages The VS Code chat messages to convert.
+ * @param thoughtSignatures Thought signatures keyed by tool call id.
+ */
+export function convertMessagesToGemini(
+	messages: readonly vscode.LanguageModelChatRequestMessage[],
+	thoughtSignatures: ReadonlyMap<string, string>
+): { systemInstruction?: { parts: GeminiPart[] }; contents: GeminiContent[] } {
+	const systemParts: GeminiPart[] = [];
+	const contents: GeminiContent[] = [];
+	// functionResponse needs the function name, tool results only carry the call id
+	const callNames = new Map<string, string>();
+
+	for (const m of messages) {
+		const role = mapRole(m);
+		const parts: GeminiPart[] = [];
+		const responses: GeminiPart[] = [];
+
+		for (const part of m.content ?? []) {
+			if (part instanceof vscode.LanguageModelTextPart) {
+				if (part.value) {
+					parts.push({ text: part.value });
+				}
+			} else if (part instanceof vscode.LanguageModelDataPart && isImageMimeType(part.mimeType)) {
+				parts.push({ inlineData: { mimeType: part.mimeType, data: Buffer.from(part.data).toString("base64") } });
+			} else if (part instanceof vscode.LanguageModelToolCallPart) {
+				callNames.set(part.callId, part.name);
+				const functionPart: GeminiPart = {
+					functionCall: { name: part.name, args: (part.input ?? {}) as Record<string, unknown> },
+				};
+				const signature = thoughtSignatures.get(part.callId);
+				if (signature) {
+					functionPart.thoughtSignature = signature;
+				}
+				parts.push(functionPart);
+			} else if (isToolResultPart(part)) {
+				responses.push({
+					functionResponse: {
+						name: callNames.get(part.callId) ?? "unknown_tool",
+						response: { content: collectToolResultText(part) },
+					},
+				});
+			}
+		}
+
+		if (role === "system") {
+			systemParts.push(...parts.filter((p) => p.text));
+			continue;
+		}
+
+		const geminiRole = role === "assistant" ? "model" : "user";
+		// Function responses must lead the user turn that answers the function calls
+		const all = [...responses, ...parts];
+		if (all.length === 0) {
+			continue;
+		}
+
+		const last = contents[contents.length - 1];
+		if (last && last.role === geminiRole) {
+			last.parts.push(...all);
+		} else {
+			contents.push({ role: geminiRole, parts: all });
+		}
+	}
+
+	return { systemInstruction: systemParts.length > 0 ? { parts: systemParts } : undefined, contents };
+}
+
+/**
+ * Strip JSON schema keywords the Gemini API rejects.
+ * @param schema Sanitized JSON schema from `convertTools`.
+ */
+function toGeminiSchema(schema: unknown): unknown {
+	if (Array.isArray(schema)) {
+		return schema.map((s) => toGeminiSchema(s));
+	}
+	if (!schema || typeof schema !== "object") {
+		return schema;
+	}
+	const out: Record<string, unknown> = {};
+	for (const [k, v] of Object.entries(schema as Record<string, unknown>)) {
+		if (k === "additionalProperties") {
+			continue;
+		}
+		if (k === "properties" && v && typeof v === "object") {
+			const props: Record<string, unknown> = {};
+			for (const [name, prop] of Object.entries(v as Record<string, unknown>)) {
+				props[name] = toGeminiSchema(prop);
+			}
+			// Gemini requires OBJECT schemas to declare at least one property
+			if (Object.keys(props).length > 0) {
+				out.properties = props;
+			}
+			continue;
+		}
+		out[k] = k === "items" ? toGeminiSchema(v) : v;
+	}
+	if (out.type === "object" && !out.properties) {
+		delete out.required;
+	}
+	return out;
+}
+
+/**
+ * Map thinking related model options to a Gemini `thinkingConfig`.
+ * @param um The user model configuration, if any.
+ */
+function prepareThinkingConfig(um: HFModelItem | undefined): Record<string, unknown> | undefined {
+	if (!um) {
+		return undefined;
+	}
+	if (um.thinking?.type === "disabled" || um.enable_thinking === false || um.reasoning?.enabled === false) {
+		return { thinkingBudget: 0 };
+	}
+
+	const budget = um.thinking?.budget_tokens ?? um.thinking_budget ?? um.reasoning?.max_tokens;
+	const effort = um.reasoning_effort ?? um.reasoning?.effort;
+	const enabled =
+		um.thinking?.type === "enabled" ||
+		um.enable_thinking === true ||
+		um.reasoning !== undefined ||
+		effort !== undefined ||
+		budget !== undefined;
+	if (!enabled) {
+		return undefined;
+	}
+
+	const thinkingConfig: Record<string, unknown> = { includeThoughts: true };
+	// thinkingBudget and thinkingLevel cannot be combined
+	if (budget !== undefined) {
+		thinkingConfig.thinkingBudget = budget;
+	} else if (effort && effort !== "auto") {
+		thinkingConfig.thinkingLevel = effort === "minimal" || effort === "low" ? "low" : "high";
+	}
+	return thinkingConfig;
+}
+
+/**
+ * Build a Gemini `streamGenerateContent` request body.
+ * @param messages The VS Code chat messages to convert.
+ * @param um The user model configuration, if any.
+ * @param options Request options containing tools and model options.
+ * @param thoughtSignatures Thought signatures keyed by tool call id.
+ */
+export function prepareGeminiRequestBody(
+	messages: readonly vscode.LanguageModelChatRequestMessage[],
+	um: HFModelItem | undefined,
+	options: ProvideLanguageModelChatResponseOptions,
+	thoughtSignatures: ReadonlyMap<string, string>
+): Record<string, unknown> {
+	const converted = convertMessagesToGemini(messages, thoughtSignatures);
+	const rb: Record<string, unknown> = { contents: converted.contents };
+	if (converted.systemInstruction) {
+		rb.systemInstruction = converted.systemInstruction;
+	}
+
+	const generationConfig: Record<string, unknown> = {};
+	const temperature = um?.temperature ?? options.modelOptions?.temperature;
+	if (typeof temperature === "number") {
+		generationConfig.temperature = temperature;
+	}
+	const topP = um?.top_p ?? options.modelOptions?.top_p;
+	if (typeof topP === "number") {
+		generationConfig.topP = topP;
+	}
+	if (um?.top_k !== undefined) {
+		generationConfig.topK = um.top_k;
+	}
+	if (um?.frequency_penalty !== undefined) {
+		generationConfig.frequencyPenalty = um.frequency_penalty;
+	}
+	if (um?.presence_penalty !== undefined) {
+		generationConfig.presencePenalty = um.presence_penalty;
+	}
+	const maxOutputTokens = um?.max_completion_tokens ?? um?.max_tokens;
+	if (maxOutputTokens !== undefined) {
+		generationConfig.maxOutputTokens = maxOutputTokens;
+	}
+	if (options.modelOptions) {
+		const mo = options.modelOptions as Record<string, unknown>;
+		if (typeof mo.stop === "string") {
+			generationConfig.stopSequences = [mo.stop];
+		} else if (Array.isArray(mo.stop)) {
+			generationConfig.stopSequences = mo.stop;
+		}
+	}
+	const thinkingConfig = prepareThinkingConfig(um);
+	if (thinkingConfig) {
+		generationConfig.thinkingConfig = thinkingConfig;
+	}
+	if (Object.keys(generationConfig).length > 0) {
+		rb.generationConfig = generationConfig;
+	}
+
+	const toolConfig = convertTools(options);
+	if (toolConfig.tools) {
+		const functionDeclarations = toolConfig.tools.map((t) => {
+			const decl: GeminiFunctionDeclaration = { name: t.function.name, description: t.function.description };
+			const parameters = toGeminiSchema(t.function.parameters) as Record<string, unknown> | undefined;
+			if (parameters?.properties) {
+				decl.parameters = parameters;
+			}
+			return decl;
+		});
+		rb.tools = [{ functionDeclarations }];
+		if (toolConfig.tool_choice && toolConfig.tool_choice !== "auto") {
+			rb.toolConfig = {
+				functionCallingConfig: { mode: "ANY", allowedFunctionNames: [toolConfig.tool_choice.function.name] },
+			};
+		} else {
+			rb.toolConfig = { functionCallingConfig: { mode: "AUTO" } };
+		}
+	}
+
+	if (um?.extra && typeof um.extra === "object") {
+		for (const [key, value] of Object.entries(um.extra)) {
+			if (value !== undefined) {
+				rb[key] = value;
+			}
+		}
+	}
+
+	return rb;
+}
+
+/**
+ * Build the streaming endpoint path for a Gemini model.
+ * @param modelId The model id, with or without the `models/` prefix.
+ */
+export function geminiStreamEndpoint(modelId: string): string {
+	return `/models/${modelId.replace(/^models\//, "")}:streamGenerateContent?alt=sse`;
+}
+
+/**
+ * Build Gemini request headers. Custom model headers take precedence.
+ * @param apiKey The API key sent as `x-goog-api-key`.
+ * @param userAgent The extension User-Agent.
+ * @param um The user model configuration, if any.
+ */
+export function prepareGeminiHeaders(
+	apiKey: string,
+	userAgent: string,
+	um: HFModelItem | undefined
+): Record<string, string> {
+	const defaultHeaders: Record<string, string> = {
+		"x-goog-api-key": apiKey,
+		"Content-Type": "application/json",
+		"User-Agent": userAgent,
+	};
+	return um?.headers ? { ...defaultHeaders, ...um.headers } : defaultHeaders;
+}
+
+/**
+ * Decodes Gemini `streamGenerateContent` chunks into VS Code response parts.
+ * One decoder is created per request.
+ */
+export class GeminiStreamDecoder implements StreamDecoder {
+	private _currentThinkingId: string | null = null;
+
+	usage: TokenUsage | undefined;
+
+	/**
+	 * @param progress Progress reporter for response parts.
+	 * @param thoughtSignatures Store that receives thought signatures keyed by tool call id.
+	 */
+	constructor(
+		private readonly progress: Progress<LanguageModelResponsePart2>,
+		private readonly thoughtSignatures: Map<string, string>
+	) {}
+
+	/**
+	 * Handle one parsed `data:` payload from the event stream.
+	 * @param chunk The parsed `GenerateContentResponse` chunk.
+	 */
+	processEvent(chunk: Record<string, unknown>): void {
+		const error = chunk.error as Record<string, unknown> | undefined;
+		if (error) {
+			throw new Error(`API error: ${error.status ?? error.code ?? "error"}: ${error.message ?? JSON.stringify(error)}`);
+		}
+
+		const feedback = chunk.promptFeedback as Record<string, unknown> | undefined;
+		if (feedback?.blockReason) {
+			throw new Error(`Gemini blocked the prompt: ${feedback.blockReason}`);
+		}
+
+		const candidate = (chunk.candidates as Record<string, unknown>[] | undefined)?.[0];
+		const content = candidate?.content as { parts?: GeminiPart[] } | undefined;
+		for (const part of content?.parts ?? []) {
+			if (part.functionCall) {
+				this.endThinking();
+				const callId = part.functionCall.id ?? `gemini_call_${Math.random().toString(36).slice(2, 10)}`;
+				if (part.thoughtSignature) {
+					this.thoughtSignatures.set(callId, part.thoughtSignature);
+				}
+				this.progress.report(
+					new vscode.LanguageModelToolCallPart(callId, part.functionCall.name, part.functionCall.args ?? {})
+				);
+			} else if (typeof part.text === "string" && part.text) {
+				if (part.thought) {
+					if (!this._currentThinkingId) {
+						this._currentThinkingId = this.generateThinkingId();
+					}
+					this.progress.report(new vscode.LanguageModelThinkingPart(part.text, this._currentThinkingId));
+				} else {
+					this.endThinking();
+					this.progress.report(new vscode.LanguageModelTextPart(part.text));
+				}
+			}
+		}
+
+		if (candidate?.finishReason) {
+			this.endThinking();
+		}
+
+		// usageMetadata is cumulative, the last chunk carries the totals
+		const usage = chunk.usageMetadata as Record<string, unknown> | undefined;
+		if (usage) {
+			const thoughts = typeof usage.thoughtsTokenCount === "number" ? usage.thoughtsTokenCount : undefined;
+			this.usage = {
+				promptTokens: Number(usage.promptTokenCount ?? 0),
+				// Gemini counts thoughts separately from candidates
+				completionTokens: Number(usage.candidatesTokenCount ?? 0) + (thoughts ?? 0),
+				reasoningTokens: thoughts,
+				cachedTokens: usage.cachedContentTokenCount as number | undefined,
+			};
+		}
+	}
+
+	private endThinking(): void {
+		if (this._currentThinkingId) {
+			this.progress.report(new vscode.LanguageModelThinkingPart("", this._currentThinkingId));
+			this._currentThinkingId = null;
+		}
+	}
+
+	private generateThinkingId(): string {
+		return `thinking_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+	}
+}
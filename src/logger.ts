@@ -0,0 +1,151 @@
+import * as vscode from "vscode";
+
+/** Levels of `oaicopilot.logLevel`, from most to least verbose. */
+export type LogLevel = "trace" | "debug" | "info" | "warn" | "error" | "off";
+
+const LOG_LEVELS: LogLevel[] = ["trace", "debug", "info", "warn", "error", "off"];
+
+const DEFAULT_LOG_LEVEL: LogLevel = "info";
+
+/** Headers that carry credentials for the built-in API modes. */
+const SECRET_HEADERS = new Set(["authorization", "x-api-key", "x-goog-api-key", "api-key", "proxy-authorization"]);
+
+const REDACTED = "<redacted>";
+
+let channel: vscode.LogOutputChannel | undefined;
+let threshold: LogLevel = DEFAULT_LOG_LEVEL;
+
+/**
+ * Create the "OAI Compatible" output channel and follow `oaicopilot.logLevel`.
+ * Until this runs, warnings and errors go to the console.
+ * @returns Disposables of the channel and the configuration listener.
+ */
+export function initLogger(): vscode.Disposable {
+	channel = vscode.window.createOutputChannel("OAI Compatible", { log: true });
+	const readLevel = () => {
+		const level = vscode.workspace.getConfiguration().get<LogLevel>("oaicopilot.logLevel", DEFAULT_LOG_LEVEL);
+		threshold = LOG_LEVELS.includes(level) ? level : DEFAULT_LOG_LEVEL;
+	};
+	readLevel();
+	const listener = vscode.workspace.onDidChangeConfiguration((e) => {
+		if (e.affectsConfiguration("oaicopilot.logLevel")) {
+			readLevel();
+		}
+	});
+	const created = channel;
+	return new vscode.Disposable(() => {
+		listener.dispose();
+		created.dispose();
+		if (channel === created) {
+			channel = undefined;
+		}
+	});
+}
+
+/** Reveal the output channel. */
+export function showLogs(): void {
+	channel?.show(true);
+}
+
+/**
+ * Whether messages of a level are written. Use it to skip building expensive messages.
+ * @param level The message level.
+ */
+export function isLogEnabled(level: Exclude<LogLevel, "off">): boolean {
+	return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+function write(level: Exclude<LogLevel, "off">, message: string, args: unknown[]): void {
+	if (!isLogEnabled(level)) {
+		return;
+	}
+	const line = [message, ...args.map(formatArg)].join(" ");
+	if (!channel) {
+		if (level === "error") {
+			console.error(`[OAI Compatible Model Provider] ${line}`);
+		} else if (level === "warn") {
+			console.warn(`[OAI Compatible Model Provider] ${line}`);
+		}
+		return;
+	}
+	// The channel drops messages below its own level ("Developer: Set Log Level"), so verbose
+	// messages requested through oaicopilot.logLevel are written at info level with their level tag.
+	if (level === "trace" || level === "debug") {
+		const channelLevel = level === "trace" ? vscode.LogLevel.Trace : vscode.LogLevel.Debug;
+		if (channel.logLevel !== vscode.LogLevel.Off && channel.logLevel <= channelLevel) {
+			channel[level](line);
+		} else {
+			channel.info(`[${level}] ${line}`);
+		}
+		return;
+	}
+	channel[level](line);
+}
+
+function formatArg(arg: unknown): string {
+	if (arg instanceof Error) {
+		return arg.stack ?? `${arg.name}: ${arg.message}`;
+	}
+	if (typeof arg === "string") {
+		return arg;
+	}
+	try {
+		return JSON.stringify(arg);
+	} catch {
+		return String(arg);
+	}
+}
+
+/**
+ * Log messages to the "OAI Compatible" output channel.
+ */
+export const logger = {
+	trace: (message: string, ...args: unknown[]) => write("trace", message, args),
+	debug: (message: string, ...args: unknown[]) => write("debug", message, args),
+	info: (message: string, ...args: unknown[]) => write("info", message, args),
+	warn: (message: string, ...args: unknown[]) => write("warn", message, args),
+	error: (message: string, ...args: unknown[]) => write("error", message, args),
+};
+
+/**
+ * Mask credentials in request headers: the built-in API key headers and every header configured
+ * in a model's `headers`, whose names may themselves reveal a secret.
+ * @param headers The request headers.
+ * @param customHeaders The model's configured `headers`, if any.
+ */
+export function redactHeaders(
+	headers: Record<string, string>,
+	customHeaders: Record<string, string> | undefined
+): Record<string, string> {
+	const custom = new Set(Object.keys(customHeaders ?? {}).map((k) => k.toLowerCase()));
+	const redacted: Record<string, string> = {};
+	let hidden = 0;
+	for (const [key, value] of Object.entries(headers)) {
+		const lower = key.toLowerCase();
+		if (custom.has(lower) && !SECRET_HEADERS.has(lower)) {
+			redacted[`<custom header ${++hidden}>`] = REDACTED;
+		} else {
+			redacted[key] = SECRET_HEADERS.has(lower) ? REDACTED : value;
+		}
+	}
+	return redacted;
+}
+
+/**
+ * Serialize a request body for logging, shortening inline base64 data such as images.
+ * @param body The request body.
+ */
+export function redactBody(body: unknown): string {
+	return JSON.stringify(body, (_key, value: unknown) => {
+		if (typeof value === "string" && value.length > 256) {
+			const dataUrl = /^data:([^;,]+);base64,/.exec(value);
+			if (dataUrl) {
+				return `data:${dataUrl[1]};base64,<${value.length - dataUrl[0].length} chars>`;
+			}
+			if (/^[A-Za-z0-9+/]+={0,2}$/.test(value)) {
+				return `<base64 ${value.length} chars>`;
+			}
+		}
+		return value;
+	});
+}
@@ -0,0 +1,318 @@
+import * as vscode from "vscode";
+
+import type { HFModelItem } from "./types";
+import type { HuggingFaceChatModelProvider } from "./provider";
+import { ModelDiscovery } from "./discovery";
+import { testConnection } from "./modelTest";
+import { PROVIDER_PRESETS, applyPreset } from "./presets";
+import { logger } from "./logger";
+
+/** Settings scope the panel reads from and writes to. */
+type SettingsTarget = "user" | "workspace";
+
+/**
+ * A form field of a model entry, as rendered by the webview.
+ * - json: object or list values edited as JSON text
+ */
+interface FieldSpec {
+	key: keyof HFModelItem;
+	label: string;
+	group: string;
+	kind: "string" | "number" | "boolean" | "enum" | "json";
+	options?: string[];
+	/** Whether `null` may be entered to stop sending the parameter. */
+	nullable?: boolean;
+	description?: string;
+}
+
+/** Every user-facing `HFModelItem` field. Listing metadata (`object`, `created`, `providers`, `architecture`) is left out. */
+const FIELDS: FieldSpec[] = [
+	{ key: "id", label: "Model id", group: "Model", kind: "string", description: "Required." },
+	{ key: "owned_by", label: "Provider (owned_by)", group: "Model", kind: "string", description: "Required." },
+	{
+		key: "configId",
+		label: "Config id",
+		group: "Model",
+		kind: "string",
+		description: "Tells apart several entries of the same model.",
+	},
+	{ key: "displayName", label: "Display name", group: "Model", kind: "string" },
+	{ key: "family", label: "Family", group: "Model", kind: "string" },
+	{
+		key: "preset",
+		label: "Preset",
+		group: "Endpoint",
+		kind: "enum",
+		options: Object.keys(PROVIDER_PRESETS),
+		description: "Known base URL, headers and reasoning field of a provider.",
+	},
+	{
+		key: "baseUrl",
+		label: "Base URL",
+		group: "Endpoint",
+		kind: "string",
+		description: "Empty uses the preset or oaicopilot.baseUrl.",
+	},
+	{
+		key: "apiMode",
+		label: "API mode",
+		group: "Endpoint",
+		kind: "enum",
+		options: ["openai", "anthropic", "responses", "gemini", "ollama"],
+	},
+	{ key: "headers", label: "Headers", group: "Endpoint", kind: "json", description: '{ "X-Header": "value" }' },
+	{ key: "keep_alive", label: "Ollama keep_alive", group: "Endpoint", kind: "string" },
+	{ key: "timeouts", label: "Timeouts", group: "Endpoint", kind: "json", description: '{ "connect_ms": 10000 }' },
+	{ key: "fallbacks", label: "Fallbacks", group: "Endpoint", kind: "json", description: '["id::configId"]' },
+	{ key: "context_length", label: "Context length", group: "Limits", kind: "number" },
+	{ key: "max_tokens", label: "Max tokens", group: "Limits", kind: "number" },
+	{ key: "max_completion_tokens", label: "Max completion tokens", group: "Limits", kind: "number" },
+	{ key: "vision", label: "Vision", group: "Limits", kind: "boolean" },
+	{ key: "toolCalling", label: "Tool calling", group: "Limits", kind: "boolean" },
+	{
+		key: "toolCallFormat",
+		label: "Tool call format",
+		group: "Limits",
+		kind: "enum",
+		options: ["native", "hermes", "xml", "json-block"],
+		description: "Text formats describe the tools in the system prompt.",
+	},
+	{ key: "temperature", label: "Temperature", group: "Sampling", kind: "number", nullable: true },
+	{ key: "top_p", label: "Top p", group: "Sampling", kind: "number", nullable: true },
+	{ key: "top_k", label: "Top k", group: "Sampling", kind: "number" },
+	{ key: "min_p", label: "Min p", group: "Sampling", kind: "number" },
+	{ key: "frequency_penalty", label: "Frequency penalty", group: "Sampling", kind: "number" },
+	{ key: "presence_penalty", label: "Presence penalty", group: "Sampling", kind: "number" },
+	{ key: "repetition_penalty", label: "Repetition penalty", group: "Sampling", kind: "number" },
+	{ key: "reasoning_effort", label: "Reasoning effort", group: "Reasoning", kind: "string" },
+	{ key: "enable_thinking", label: "Enable thinking", group: "Reasoning", kind: "boolean" },
+	{ key: "thinking_budget", label: "Thinking budget", group: "Reasoning", kind: "number" },
+	{ key: "thinking", label: "Thinking", group: "Reasoning", kind: "json", description: '{ "type": "enabled" }' },
+	{ key: "reasoning", label: "Reasoning", group: "Reasoning", kind: "json", description: '{ "effort": "medium" }' },
+	{
+		key: "tokenizer",
+		label: "Tokenizer",
+		group: "Advanced",
+		kind: "enum",
+		options: ["o200k", "cl100k", "llama3", "qwen", "deepseek", "heuristic"],
+	},
+	{ key: "pricing", label: "Pricing", group: "Advanced", kind: "json", description: '{ "input": 0.5, "output": 2 }' },
+	{ key: "promptCaching", label: "Prompt caching", group: "Advanced", kind: "boolean" },
+	{ key: "extra", label: "Extra body parameters", group: "Advanced", kind: "json" },
+];
+
+/**
+ * Messages posted by the webview.
+ */
+type ManagerMessage =
+	| { type: "ready" }
+	| { type: "load"; target: SettingsTarget }
+	| { type: "save"; target: SettingsTarget; models: HFModelItem[] }
+	| { type: "setKey"; provider: string; key: string }
+	| { type: "fetchModels"; requestId: number; model: HFModelItem }
+	| { type: "test"; modelId: string };
+
+/**
+ * Webview panel listing `oaicopilot.models` grouped by provider, with forms for every model field,
+ * per-provider API keys, a model picker fed by the endpoint's `/models` and a connection test.
+ * Changes are written back to the user or workspace settings.
+ */
+export class ModelManagerPanel implements vscode.Disposable {
+	static readonly viewType = "oaicopilot.modelManager";
+
+	private static current: ModelManagerPanel | undefined;
+
+	private readonly _disposables: vscode.Disposable[] = [];
+	private _target: SettingsTarget;
+
+	/**
+	 * Open the panel, or reveal it when it is already open.
+	 * @param extensionUri Root of the extension, holding the webview assets.
+	 * @param secrets Secret storage holding the API keys.
+	 * @param provider The chat provider, used for connection tests.
+	 * @param discovery Model discovery, used to list the models of an endpoint.
+	 */
+	static show(
+		extensionUri: vscode.Uri,
+		secrets: vscode.SecretStorage,
+		provider: HuggingFaceChatModelProvider,
+		discovery: ModelDiscovery
+	): void {
+		if (ModelManagerPanel.current) {
+			ModelManagerPanel.current.panel.reveal();
+			return;
+		}
+		const panel = vscode.window.createWebviewPanel(
+			ModelManagerPanel.viewType,
+			"OAI Compatible Models",
+			vscode.ViewColumn.Active,
+			{
+				enableScripts: true,
+				retainContextWhenHidden: true,
+				localResourceRoots: [vscode.Uri.joinPath(extensionUri, "assets")],
+			}
+		);
+		ModelManagerPanel.current = new ModelManagerPanel(panel, extensionUri, secrets, provider, discovery);
+	}
+
+	private constructor(
+		private readonly panel: vscode.WebviewPanel,
+		private readonly extensionUri: vscode.Uri,
+		private readonly secrets: vscode.SecretStorage,
+		private readonly provider: HuggingFaceChatModelProvider,
+		private readonly discovery: ModelDiscovery
+	) {
+		const inspected = vscode.workspace.getConfiguration().inspect<HFModelItem[]>("oaicopilot.models");
+		this._target = inspected?.workspaceValue !== undefined ? "workspace" : "user";
+
+		panel.webview.html = this.renderHtml();
+		this._disposables.push(
+			panel.onDidDispose(() => this.dispose()),
+			panel.webview.onDidReceiveMessage((message: ManagerMessage) =>
+				this.handleMessage(message).catch((err) => {
+					logger.error("Model manager request failed", err);
+					vscode.window.showErrorMessage(`Model manager: ${err instanceof Error ? err.message : String(err)}`);
+				})
+			),
+			vscode.workspace.onDidChangeConfiguration((e) => {
+				if (e.affectsConfiguration("oaicopilot.models")) {
+					void this.postState(false);
+				}
+			}),
+			secrets.onDidChange((e) => {
+				if (e.key.startsWith("oaicopilot.apiKey")) {
+					void this.postState(false);
+				}
+			})
+		);
+	}
+
+	dispose(): void {
+		ModelManagerPanel.current = undefined;
+		this.panel.dispose();
+		for (const d of this._disposables.splice(0)) {
+			d.dispose();
+		}
+	}
+
+	private async handleMessage(message: ManagerMessage): Promise<void> {
+		switch (message.type) {
+			case "ready":
+				await this.postState(true);
+				break;
+			case "load":
+				this._target = message.target;
+				await this.postState(true);
+				break;
+			case "save": {
+				if (!Array.isArray(message.models) || message.models.some((m) => !m || typeof m !== "object")) {
+					throw new Error("Invalid model list");
+				}
+				const target =
+					message.target === "workspace" ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+				this._target = message.target;
+				await vscode.workspace.getConfiguration().update("oaicopilot.models", message.models, target);
+				logger.info(`Model manager saved ${message.models.length} models to ${message.target} settings`);
+				await this.postState(true);
+				break;
+			}
+			case "setKey": {
+				const provider = message.provider.trim().toLowerCase();
+				if (!provider) {
+					throw new Error("Set the provider (owned_by) before its API key");
+				}
+				const secretKey = `oaicopilot.apiKey.${provider}`;
+				if (message.key.trim()) {
+					await this.secrets.store(secretKey, message.key.trim());
+				} else {
+					await this.secrets.delete(secretKey);
+				}
+				await this.postState(false);
+				break;
+			}
+			case "fetchModels":
+				try {
+					const model = applyPreset(message.model) ?? message.model;
+					const models = await this.discovery.listModels(model.baseUrl ?? "", model.owned_by ?? "", model.headers);
+					await this.panel.webview.postMessage({
+						type: "models",
+						requestId: message.requestId,
+						ids: models.map((m) => m.id).sort(),
+					});
+				} catch (err) {
+					await this.panel.webview.postMessage({
+						type: "models",
+						requestId: message.requestId,
+						ids: [],
+						error: err instanceof Error ? err.message : String(err),
+					});
+				}
+				break;
+			case "test": {
+				const result = await testConnection(this.provider, message.modelId);
+				await this.panel.webview.postMessage({ type: "testResult", modelId: message.modelId, result });
+				break;
+			}
+		}
+	}
+
+	/**
+	 * Send the models of the current target and which providers have a stored key.
+	 * @param force Replace the webview's models even when it has unsaved changes.
+	 */
+	private async postState(force: boolean): Promise<void> {
+		const inspected = vscode.workspace.getConfiguration().inspect<HFModelItem[]>("oaicopilot.models");
+		const models = (this._target === "workspace" ? inspected?.workspaceValue : inspected?.globalValue) ?? [];
+		const keys: Record<string, boolean> = {};
+		for (const m of models) {
+			const provider = m?.owned_by?.toLowerCase();
+			if (provider && keys[provider] === undefined) {
+				keys[provider] = !!(await this.secrets.get(`oaicopilot.apiKey.${provider}`));
+			}
+		}
+		await this.panel.webview.postMessage({
+			type: "state",
+			force,
+			target: this._target,
+			hasWorkspace: !!vscode.workspace.workspaceFolders?.length,
+			hasDefaultKey: !!(await this.secrets.get("oaicopilot.apiKey")),
+			models,
+			keys,
+			fields: FIELDS,
+		});
+	}
+
+	private renderHtml(): string {
+		const webview = this.panel.webview;
+		const asset = (name: string) => webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, "assets", name));
+		const nonce = crypto.randomUUID().replace(/-/g, "");
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<link href="${asset("modelManager.css")}" rel="stylesheet">
+	<title>OAI Compatible Models</title>
+</head>
+<body>
+	<header>
+		<select id="target" title="Settings to edit">
+			<option value="user">User settings</option>
+			<option value="workspace">Workspace settings</option>
+		</select>
+		<button id="add">Add Model</button>
+		<button id="save" disabled>Save</button>
+		<button id="revert" class="secondary" disabled>Revert</button>
+		<span id="status"></span>
+	</header>
+	<main>
+		<section id="list"></section>
+		<section id="form"></section>
+	</main>
+	<datalist id="fetched-ids"></datalist>
+	<script nonce="${nonce}" src="${asset("modelManager.js")}"></script>
+</body>
+</html>`;
+	}
+}
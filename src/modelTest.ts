@@ -0,0 +1,466 @@
+import * as vscode from "vscode";
+import { CancellationToken, LanguageModelChatInformation, LanguageModelChatRequestMessage } from "vscode";
+
+import type { HFModelItem } from "./types";
+import type { HuggingFaceChatModelProvider } from "./provider";
+import { countTextTokens, resolveTokenizer } from "./provideToken";
+import { parseModelId, responsePartText } from "./utils";
+import { logger } from "./logger";
+
+/** Time a single probe may take before it is cancelled. */
+const PROBE_TIMEOUT_MS = 60_000;
+
+/** A 16x16 solid red PNG sent by the image probe. */
+const RED_PNG_BASE64 =
+	"iVBORw0KGgoAAAANSUhEUgAAABAAAAAQCAIAAACQkWg2AAAAFklEQVR42mP4z8BAEmIY1TCqYfhqAACQ+f8B8u7oVwAAAABJRU5ErkJggg==";
+
+const NO_TOOLS: vscode.ProvideLanguageModelChatResponseOptions = {
+	requestInitiator: "oaicopilot.testModel",
+	toolMode: vscode.LanguageModelChatToolMode.Auto,
+};
+
+const PROBE_TOOL: vscode.LanguageModelChatTool = {
+	name: "get_weather",
+	description: "Get the current weather for a city.",
+	inputSchema: {
+		type: "object",
+		properties: { city: { type: "string", description: "Name of the city" } },
+		required: ["city"],
+	},
+};
+
+/**
+ * What a probe request streamed back.
+ */
+interface ProbeResponse {
+	text: string;
+	thinking: string;
+	toolCalls: vscode.LanguageModelToolCallPart[];
+	/** Milliseconds from sending the request to the first response part. */
+	firstPartMs: number | undefined;
+	/** Milliseconds from sending the request to the end of the stream. */
+	totalMs: number;
+	error: Error | undefined;
+}
+
+/**
+ * Outcome of one probe, as shown in the report.
+ */
+export interface ProbeResult {
+	name: string;
+	ok: boolean;
+	detail: string;
+	firstPartMs: number | undefined;
+	tokensPerSecond: number | undefined;
+}
+
+/**
+ * Capabilities detected by the probes. Undefined when a probe was inconclusive.
+ */
+export interface DetectedCapabilities {
+	toolCalling: boolean | undefined;
+	vision: boolean | undefined;
+	reasoning: boolean | undefined;
+}
+
+/**
+ * Let the user pick a model, probe it with small requests and show what worked. Detected
+ * capabilities can be written back into the model's `oaicopilot.models` entry.
+ * @param provider The chat provider, so probes take the same path as chat requests.
+ */
+export async function testModel(provider: HuggingFaceChatModelProvider): Promise<void> {
+	const models = await provider.provideLanguageModelChatInformation(
+		{ silent: false },
+		new vscode.CancellationTokenSource().token
+	);
+	if (models.length === 0) {
+		vscode.window.showErrorMessage("No OAI Compatible models found. Configure oaicopilot.models first.");
+		return;
+	}
+	const picked = await vscode.window.showQuickPick(
+		models.map((model) => ({ label: model.name, description: model.id, model })),
+		{ title: "Test Model", placeHolder: "Select a model to probe" }
+	);
+	if (!picked) {
+		return;
+	}
+	const model = picked.model;
+
+	const results = await vscode.window.withProgress(
+		{
+			location: vscode.ProgressLocation.Notification,
+			title: `Testing ${model.name}`,
+			cancellable: true,
+		},
+		(progress, token) => runProbes(provider, model, progress, token)
+	);
+	if (!results) {
+		return;
+	}
+
+	const detected = detectCapabilities(results);
+	const doc = await vscode.workspace.openTextDocument({
+		content: buildTestReport(model, results, detected),
+		language: "markdown",
+	});
+	await vscode.window.showTextDocument(doc, { preview: true });
+
+	await offerCapabilityUpdate(model, detected);
+}
+
+/**
+ * Run the probes one after another.
+ * @returns The results, or undefined when the user cancelled.
+ */
+async function runProbes(
+	provider: HuggingFaceChatModelProvider,
+	model: LanguageModelChatInformation,
+	progress: vscode.Progress<{ message?: string; increment?: number }>,
+	token: CancellationToken
+): Promise<ProbeResult[] | undefined> {
+	const probes: { name: string; run: () => Promise<Omit<ProbeResult, "name">> }[] = [
+		{
+			name: "Completion",
+			run: () => probeCompletion(provider, model, token),
+		},
+		{
+			name: "Tool call",
+			run: async () => {
+				const response = await sendProbe(
+					provider,
+					model,
+					[userMessage("What is the weather in Paris? Use the get_weather tool.")],
+					{ ...NO_TOOLS, tools: [PROBE_TOOL], toolMode: vscode.LanguageModelChatToolMode.Required },
+					token
+				);
+				const call = response.toolCalls.find((c) => c.name === PROBE_TOOL.name);
+				return {
+					ok: !response.error && !!call,
+					detail:
+						response.error?.message ??
+						(call ? `get_weather(${JSON.stringify(call.input)})` : `No tool call: ${summarize(response.text)}`),
+					firstPartMs: response.firstPartMs,
+					tokensPerSecond: undefined,
+				};
+			},
+		},
+		{
+			name: "Image input",
+			run: async () => {
+				const image = new vscode.LanguageModelDataPart(Buffer.from(RED_PNG_BASE64, "base64"), "image/png");
+				const response = await sendProbe(
+					provider,
+					model,
+					[userMessage("What color is this image? Answer with one word.", image)],
+					NO_TOOLS,
+					token
+				);
+				const sawRed = /red/i.test(response.text);
+				return {
+					ok: !response.error && sawRed,
+					detail:
+						response.error?.message ??
+						(sawRed ? summarize(response.text) : `Did not recognize the image: ${summarize(response.text)}`),
+					firstPartMs: response.firstPartMs,
+					tokensPerSecond: undefined,
+				};
+			},
+		},
+		{
+			name: "Reasoning",
+			run: async () => {
+				const response = await sendProbe(
+					provider,
+					model,
+					[userMessage("What is 17 * 23? Think it through, then answer with the number only.")],
+					NO_TOOLS,
+					token
+				);
+				return {
+					ok: !response.error && response.thinking.trim().length > 0,
+					detail:
+						response.error?.message ??
+						(response.thinking.trim()
+							? `${response.thinking.length} characters of reasoning`
+							: "No reasoning streamed. It may need reasoning settings such as enable_thinking or reasoning_effort."),
+					firstPartMs: response.firstPartMs,
+					tokensPerSecond: await tokensPerSecond(response, model),
+				};
+			},
+		},
+	];
+
+	const results: ProbeResult[] = [];
+	for (const probe of probes) {
+		if (token.isCancellationRequested) {
+			return undefined;
+		}
+		progress.report({ message: probe.name, increment: 100 / probes.length });
+		const result = { name: probe.name, ...(await probe.run()) };
+		logger.info(`Test ${model.id}: ${probe.name} ${result.ok ? "passed" : "failed"}`, result.detail);
+		results.push(result);
+	}
+	return token.isCancellationRequested ? undefined : results;
+}
+
+/**
+ * Send a plain completion probe to a model, the connection test of the model manager.
+ * @param provider The chat provider.
+ * @param modelId The VS Code model id ("id" or "id::configId") of a configured model.
+ */
+export async function testConnection(provider: HuggingFaceChatModelProvider, modelId: string): Promise<ProbeResult> {
+	const cts = new vscode.CancellationTokenSource();
+	try {
+		const models = await provider.provideLanguageModelChatInformation({ silent: true }, cts.token);
+		const model = models.find((m) => m.id === modelId);
+		if (!model) {
+			return {
+				name: "Completion",
+				ok: false,
+				detail: `Model "${modelId}" is not available. Save it and set its API key first.`,
+				firstPartMs: undefined,
+				tokensPerSecond: undefined,
+			};
+		}
+		return { name: "Completion", ...(await probeCompletion(provider, model, cts.token)) };
+	} finally {
+		cts.dispose();
+	}
+}
+
+async function probeCompletion(
+	provider: HuggingFaceChatModelProvider,
+	model: LanguageModelChatInformation,
+	token: CancellationToken
+): Promise<Omit<ProbeResult, "name">> {
+	const response = await sendProbe(
+		provider,
+		model,
+		[userMessage("Count from 1 to 20, separated by spaces.")],
+		NO_TOOLS,
+		token
+	);
+	return {
+		ok: !response.error && response.text.trim().length > 0,
+		detail: response.error?.message ?? summarize(response.text),
+		firstPartMs: response.firstPartMs,
+		tokensPerSecond: await tokensPerSecond(response, model),
+	};
+}
+
+/**
+ * Output tokens per second after the first response part.
+ */
+async function tokensPerSecond(
+	response: ProbeResponse,
+	model: LanguageModelChatInformation
+): Promise<number | undefined> {
+	const generated = response.text + response.thinking;
+	const streamMs = response.totalMs - (response.firstPartMs ?? response.totalMs);
+	if (!generated || streamMs <= 0) {
+		return undefined;
+	}
+	const tokenizer = resolveTokenizer(findConfiguredModel(model.id)?.entry, model);
+	return (await countTextTokens(generated, tokenizer)) / (streamMs / 1000);
+}
+
+/**
+ * Send one probe through the provider, without fallbacks, and collect what it streams.
+ */
+async function sendProbe(
+	provider: HuggingFaceChatModelProvider,
+	model: LanguageModelChatInformation,
+	messages: LanguageModelChatRequestMessage[],
+	options: vscode.ProvideLanguageModelChatResponseOptions,
+	token: CancellationToken
+): Promise<ProbeResponse> {
+	const cts = new vscode.CancellationTokenSource();
+	const cancelListener = token.onCancellationRequested(() => cts.cancel());
+	const timer = setTimeout(() => cts.cancel(), PROBE_TIMEOUT_MS);
+
+	const response: ProbeResponse = {
+		text: "",
+		thinking: "",
+		toolCalls: [],
+		firstPartMs: undefined,
+		totalMs: 0,
+		error: undefined,
+	};
+	const start = Date.now();
+	try {
+		await provider.provideLanguageModelChatResponse(
+			model,
+			messages,
+			options,
+			{
+				report: (part) => {
+					response.firstPartMs ??= Date.now() - start;
+					if (part instanceof vscode.LanguageModelToolCallPart) {
+						response.toolCalls.push(part);
+					} else if (part instanceof vscode.LanguageModelThinkingPart) {
+						response.thinking += responsePartText(part);
+					} else {
+						response.text += responsePartText(part);
+					}
+				},
+			},
+			cts.token,
+			false
+		);
+	} catch (err) {
+		response.error =
+			cts.token.isCancellationRequested && !token.isCancellationRequested
+				? new Error(`No response within ${PROBE_TIMEOUT_MS / 1000}s`)
+				: err instanceof Error
+					? err
+					: new Error(String(err));
+	} finally {
+		response.totalMs = Date.now() - start;
+		clearTimeout(timer);
+		cancelListener.dispose();
+		cts.dispose();
+	}
+	return response;
+}
+
+/**
+ * Derive capabilities from the probe results. A capability counts as missing only when the
+ * completion probe worked, so an unreachable endpoint does not disable anything.
+ */
+function detectCapabilities(results: ProbeResult[]): DetectedCapabilities {
+	const byName = (name: string) => results.find((r) => r.name === name);
+	const reachable = byName("Completion")?.ok ?? false;
+	const detect = (name: string) => {
+		const result = byName(name);
+		return result && (result.ok || reachable) ? result.ok : undefined;
+	};
+	return {
+		toolCalling: detect("Tool call"),
+		vision: detect("Image input"),
+		reasoning: detect("Reasoning"),
+	};
+}
+
+/**
+ * Build a markdown report of the probe results.
+ */
+function buildTestReport(
+	model: LanguageModelChatInformation,
+	results: ProbeResult[],
+	detected: DetectedCapabilities
+): string {
+	const formatMs = (ms: number | undefined) => (ms === undefined ? "-" : `${ms} ms`);
+	const formatRate = (rate: number | undefined) => (rate === undefined ? "-" : `${rate.toFixed(1)} tok/s`);
+	const formatFlag = (flag: boolean | undefined) => (flag === undefined ? "unknown" : flag ? "yes" : "no");
+
+	const lines = [
+		`# Model Test: ${model.name}`,
+		"",
+		`Model id: \`${model.id}\``,
+		"",
+		"| Probe | Result | First token | Throughput | Details |",
+		"|---|---|---:|---:|---|",
+	];
+	for (const r of results) {
+		const detail = r.detail.replace(/\|/g, "\\|").replace(/\s+/g, " ");
+		lines.push(
+			`| ${r.name} | ${r.ok ? "passed" : "failed"} | ${formatMs(r.firstPartMs)} | ${formatRate(r.tokensPerSecond)} | ${detail} |`
+		);
+	}
+	lines.push(
+		"",
+		"## Detected capabilities",
+		"",
+		`- Tool calling: ${formatFlag(detected.toolCalling)} (advertised: ${formatFlag(model.capabilities.toolCalling !== false)})`,
+		`- Image input: ${formatFlag(detected.vision)} (advertised: ${formatFlag(!!model.capabilities.imageInput)})`,
+		`- Reasoning output: ${formatFlag(detected.reasoning)}`,
+		""
+	);
+	return lines.join("\n");
+}
+
+/**
+ * Offer to write detected `toolCalling` and `vision` into the model's `oaicopilot.models` entry
+ * when they differ from the configuration.
+ */
+async function offerCapabilityUpdate(
+	model: LanguageModelChatInformation,
+	detected: DetectedCapabilities
+): Promise<void> {
+	const configured = findConfiguredModel(model.id);
+	if (!configured) {
+		return;
+	}
+	const { entry, index, target } = configured;
+	const changes: Partial<HFModelItem> = {};
+	if (detected.toolCalling !== undefined && detected.toolCalling !== (entry.toolCalling ?? true)) {
+		changes.toolCalling = detected.toolCalling;
+	}
+	if (detected.vision !== undefined && detected.vision !== (entry.vision ?? false)) {
+		changes.vision = detected.vision;
+	}
+	if (Object.keys(changes).length === 0) {
+		return;
+	}
+
+	const summary = Object.entries(changes)
+		.map(([key, value]) => `${key}: ${value}`)
+		.join(", ");
+	const save = "Update Configuration";
+	const choice = await vscode.window.showInformationMessage(
+		`Detected ${summary} for ${model.name}. Save to oaicopilot.models?`,
+		save
+	);
+	if (choice !== save) {
+		return;
+	}
+
+	const config = vscode.workspace.getConfiguration();
+	const inspected = config.inspect<HFModelItem[]>("oaicopilot.models");
+	const models = [
+		...((target === vscode.ConfigurationTarget.Workspace ? inspected?.workspaceValue : inspected?.globalValue) ?? []),
+	];
+	models[index] = { ...models[index], ...changes };
+	await config.update("oaicopilot.models", models, target);
+	vscode.window.showInformationMessage(`Updated ${model.name} in oaicopilot.models.`);
+}
+
+/**
+ * Find the `oaicopilot.models` entry of a model id in the scope that defines the setting.
+ * A workspace value replaces the user value as a whole, so only the first defined scope is searched.
+ * Discovered models have no entry.
+ */
+function findConfiguredModel(
+	modelId: string
+): { entry: HFModelItem; index: number; target: vscode.ConfigurationTarget } | undefined {
+	const inspected = vscode.workspace.getConfiguration().inspect<HFModelItem[]>("oaicopilot.models");
+	const scopes: [HFModelItem[] | undefined, vscode.ConfigurationTarget][] = [
+		[inspected?.workspaceValue, vscode.ConfigurationTarget.Workspace],
+		[inspected?.globalValue, vscode.ConfigurationTarget.Global],
+	];
+	const { baseId, configId } = parseModelId(modelId);
+	for (const [models, target] of scopes) {
+		if (!models) {
+			continue;
+		}
+		const index = models.findIndex((m) => m.id === baseId && (m.configId || undefined) === configId);
+		return index >= 0 ? { entry: models[index], index, target } : undefined;
+	}
+	return undefined;
+}
+
+function userMessage(prompt: string, ...parts: unknown[]): LanguageModelChatRequestMessage {
+	return {
+		role: vscode.LanguageModelChatMessageRole.User,
+		name: undefined,
+		content: [new vscode.LanguageModelTextPart(prompt), ...parts],
+	};
+}
+
+function summarize(text: string): string {
+	const trimmed = text.trim();
+	if (!trimmed) {
+		return "Empty response";
+	}
+	return trimmed.length > 80 ? `${trimmed.slice(0, 80)}...` : trimmed;
+}
@@ -0,0 +1,353 @@
+import * as vscode from "vscode";
+import { LanguageModelResponsePart2, Progress, ProvideLanguageModelChatResponseOptions } from "vscode";
+
+import type {
+	HFModelItem,
+	OllamaChatMessage,
+	OllamaModelInfo,
+	OllamaShowResponse,
+	OpenAIChatMessage,
+	StreamDecoder,
+	TokenUsage,
+} from "./types";
+
+import { convertTools, tryParseJSONObject } from "./utils";
+import { parseToolArguments } from "./toolArguments";
+import { logger } from "./logger";
+
+/** Model id used in `oaicopilot.models` to expand an Ollama entry to every locally installed model. */
+export const OLLAMA_WILDCARD_ID = "*";
+
+/** Timeout of the `/api/tags` and `/api/show` requests made while listing models. */
+const OLLAMA_METADATA_TIMEOUT_MS = 10_000;
+
+/** Ollama model info per server and model, so listing models doesn't query `/api/show` every time. */
+const modelInfoCache = new Map<string, Promise<OllamaModelInfo>>();
+
+/**
+ * Translate OpenAI-style chat messages (the output of `convertMessages`) into Ollama `/api/chat` messages.
+ * @param messages OpenAI-compatible messages.
+ */
+export function convertMessagesToOllama(messages: readonly OpenAIChatMessage[]): OllamaChatMessage[] {
+	const out: OllamaChatMessage[] = [];
+	// Ollama identifies tool results by function name rather than call id
+	const callNames = new Map<string, string>();
+
+	for (const m of messages) {
+		if (m.role === "tool") {
+			out.push({
+				role: "tool",
+				content: typeof m.content === "string" ? m.content : JSON.stringify(m.content ?? ""),
+				tool_name: callNames.get(m.tool_call_id ?? ""),
+			});
+			continue;
+		}
+
+		const msg: OllamaChatMessage = { role: m.role, content: "" };
+		if (typeof m.content === "string") {
+			msg.content = m.content;
+		} else if (Array.isArray(m.content)) {
+			const texts: string[] = [];
+			const images: string[] = [];
+			for (const c of m.content) {
+				if (c.type === "text" && c.text) {
+					texts.push(c.text);
+				} else if (c.type === "image_url" && c.image_url) {
+					// Ollama expects bare base64 without the data URL prefix
+					images.push(c.image_url.url.replace(/^data:[^;]+;base64,/, ""));
+				}
+			}
+			msg.content = texts.join("\n");
+			if (images.length > 0) {
+				msg.images = images;
+			}
+		}
+
+		if (m.tool_calls && m.tool_calls.length > 0) {
+			msg.tool_calls = m.tool_calls.map((tc) => {
+				callNames.set(tc.id, tc.function.name);
+				const parsed = tryParseJSONObject(tc.function.arguments);
+				return { function: { name: tc.function.name, arguments: parsed.ok ? parsed.value : {} } };
+			});
+		}
+		out.push(msg);
+	}
+	return out;
+}
+
+/**
+ * Build an Ollama `/api/chat` request body. Sampling and context parameters go into `options`.
+ * @param modelId The model id sent to the API.
+ * @param messages OpenAI-compatible messages from `convertMessages`.
+ * @param um The user model configuration, if any.
+ * @param options Request options containing tools and model options.
+ * @param contextLength Context length read from `/api/show`, used when `um` sets none.
+ */
+export function prepareOllamaRequestBody(
+	modelId: string,
+	messages: readonly OpenAIChatMessage[],
+	um: HFModelItem | undefined,
+	options: ProvideLanguageModelChatResponseOptions,
+	contextLength?: number
+): Record<string, unknown> {
+	const rb: Record<string, unknown> = {
+		model: modelId,
+		messages: convertMessagesToOllama(messages),
+		stream: true,
+	};
+
+	const ollamaOptions: Record<string, unknown> = {};
+	// Ollama runs at a small default context unless asked for the one advertised to VS Code
+	const numCtx = um?.context_length ?? contextLength;
+	if (numCtx !== undefined) {
+		ollamaOptions.num_ctx = numCtx;
+	}
+	const numPredict = um?.max_tokens ?? um?.max_completion_tokens;
+	if (numPredict !== undefined) {
+		ollamaOptions.num_predict = numPredict;
+	}
+	const temperature = um?.temperature ?? options.modelOptions?.temperature;
+	if (typeof temperature === "number") {
+		ollamaOptions.temperature = temperature;
+	}
+	const topP = um?.top_p ?? options.modelOptions?.top_p;
+	if (typeof topP === "number") {
+		ollamaOptions.top_p = topP;
+	}
+	if (um?.top_k !== undefined) {
+		ollamaOptions.top_k = um.top_k;
+	}
+	if (um?.min_p !== undefined) {
+		ollamaOptions.min_p = um.min_p;
+	}
+	if (um?.repetition_penalty !== undefined) {
+		ollamaOptions.repeat_penalty = um.repetition_penalty;
+	}
+	if (um?.frequency_penalty !== undefined) {
+		ollamaOptions.frequency_penalty = um.frequency_penalty;
+	}
+	if (um?.presence_penalty !== undefined) {
+		ollamaOptions.presence_penalty = um.presence_penalty;
+	}
+	if (options.modelOptions) {
+		const mo = options.modelOptions as Record<string, unknown>;
+		if (typeof mo.stop === "string") {
+			ollamaOptions.stop = [mo.stop];
+		} else if (Array.isArray(mo.stop)) {
+			ollamaOptions.stop = mo.stop;
+		}
+	}
+	if (Object.keys(ollamaOptions).length > 0) {
+		rb.options = ollamaOptions;
+	}
+
+	if (um?.keep_alive !== undefined) {
+		rb.keep_alive = um.keep_alive;
+	}
+
+	// Native thinking: a boolean, or an effort level for models like gpt-oss
+	const effort = um?.reasoning_effort ?? um?.reasoning?.effort;
+	if (um?.thinking?.type === "disabled" || um?.enable_thinking === false || um?.reasoning?.enabled === false) {
+		rb.think = false;
+	} else if (effort === "low" || effort === "medium" || effort === "high") {
+		rb.think = effort;
+	} else if (um?.thinking?.type === "enabled" || um?.enable_thinking === true || um?.reasoning !== undefined) {
+		rb.think = true;
+	}
+
+	const toolConfig = convertTools(options);
+	if (toolConfig.tools) {
+		rb.tools = toolConfig.tools;
+	}
+
+	if (um?.extra && typeof um.extra === "object") {
+		for (const [key, value] of Object.entries(um.extra)) {
+			if (value !== undefined) {
+				rb[key] = value;
+			}
+		}
+	}
+
+	return rb;
+}
+
+/**
+ * Build Ollama request headers. The key is optional since local Ollama has no authentication.
+ * @param apiKey The API key sent as a Bearer token, if any.
+ * @param userAgent The extension User-Agent.
+ * @param um The user model configuration, if any.
+ */
+export function prepareOllamaHeaders(
+	apiKey: string | undefined,
+	userAgent: string,
+	um: HFModelItem | undefined
+): Record<string, string> {
+	const defaultHeaders: Record<string, string> = {
+		"Content-Type": "application/json",
+		"User-Agent": userAgent,
+	};
+	if (apiKey) {
+		defaultHeaders.Authorization = `Bearer ${apiKey}`;
+	}
+	return um?.headers ? { ...defaultHeaders, ...um.headers } : defaultHeaders;
+}
+
+/**
+ * Decodes Ollama newline-delimited JSON chunks into VS Code response parts.
+ * One decoder is created per request.
+ */
+export class OllamaStreamDecoder implements StreamDecoder {
+	private _currentThinkingId: string | null = null;
+
+	usage: TokenUsage | undefined;
+
+	constructor(private readonly progress: Progress<LanguageModelResponsePart2>) {}
+
+	/**
+	 * Handle one parsed line of the NDJSON stream.
+	 * @param chunk The parsed chunk object.
+	 */
+	processEvent(chunk: Record<string, unknown>): void {
+		if (typeof chunk.error === "string") {
+			throw new Error(`API error: ${chunk.error}`);
+		}
+
+		const message = (chunk.message ?? {}) as Record<string, unknown>;
+		if (typeof message.thinking === "string" && message.thinking) {
+			if (!this._currentThinkingId) {
+				this._currentThinkingId = this.generateThinkingId();
+			}
+			this.progress.report(new vscode.LanguageModelThinkingPart(message.thinking, this._currentThinkingId));
+		}
+
+		if (typeof message.content === "string" && message.content) {
+			this.endThinking();
+			this.progress.report(new vscode.LanguageModelTextPart(message.content));
+		}
+
+		// Ollama sends each tool call complete, with arguments already parsed
+		const toolCalls = message.tool_calls as Array<Record<string, unknown>> | undefined;
+		for (const tc of toolCalls ?? []) {
+			const func = (tc.function ?? {}) as Record<string, unknown>;
+			if (typeof func.name !== "string" || !func.name) {
+				continue;
+			}
+			let args: Record<string, unknown> = {};
+			if (func.arguments && typeof func.arguments === "object" && !Array.isArray(func.arguments)) {
+				args = func.arguments as Record<string, unknown>;
+			} else if (typeof func.arguments === "string") {
+				args = parseToolArguments(func.arguments, func.name);
+			}
+			this.endThinking();
+			const id = typeof tc.id === "string" ? tc.id : `call_${Math.random().toString(36).slice(2, 10)}`;
+			this.progress.report(new vscode.LanguageModelToolCallPart(id, func.name, args));
+		}
+
+		if (chunk.done === true) {
+			this.endThinking();
+			const info = {
+				done_reason: chunk.done_reason,
+				prompt_eval_count: chunk.prompt_eval_count,
+				eval_count: chunk.eval_count,
+			};
+			this.usage = {
+				promptTokens: Number(chunk.prompt_eval_count ?? 0),
+				completionTokens: Number(chunk.eval_count ?? 0),
+			};
+			if (chunk.done_reason === "length") {
+				logger.warn("Ollama response truncated by num_predict/num_ctx", info);
+			} else {
+				logger.info("Ollama response done", info);
+			}
+		}
+	}
+
+	private endThinking(): void {
+		if (this._currentThinkingId) {
+			this.progress.report(new vscode.LanguageModelThinkingPart("", this._currentThinkingId));
+			this._currentThinkingId = null;
+		}
+	}
+
+	private generateThinkingId(): string {
+		return `thinking_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+	}
+}
+
+/**
+ * List the models installed on an Ollama server via `/api/tags`.
+ * @param baseUrl The Ollama server URL (without `/api`).
+ * @param headers Request headers.
+ */
+export async function fetchOllamaModels(baseUrl: string, headers: Record<string, string>): Promise<string[]> {
+	const resp = await fetch(`${baseUrl.replace(/\/+$/, "")}/api/tags`, {
+		method: "GET",
+		headers,
+		signal: AbortSignal.timeout(OLLAMA_METADATA_TIMEOUT_MS),
+	});
+	if (!resp.ok) {
+		throw new Error(`Failed to fetch Ollama models: ${resp.status} ${resp.statusText}`);
+	}
+	const parsed = (await resp.json()) as { models?: Array<{ name?: string; model?: string }> };
+	return (parsed.models ?? []).map((m) => m.model ?? m.name ?? "").filter((name) => name !== "");
+}
+
+/**
+ * Read the info of an Ollama model, cached per server and model. Failed requests are not cached.
+ * @param baseUrl The Ollama server URL (without `/api`).
+ * @param model The model name.
+ * @param headers Request headers.
+ */
+export function getOllamaModelInfo(
+	baseUrl: string,
+	model: string,
+	headers: Record<string, string>
+): Promise<OllamaModelInfo> {
+	const key = `${baseUrl.replace(/\/+$/, "")}|${model}`;
+	let info = modelInfoCache.get(key);
+	if (!info) {
+		info = fetchOllamaModelInfo(baseUrl, model, headers);
+		modelInfoCache.set(key, info);
+		info.catch(() => modelInfoCache.delete(key));
+	}
+	return info;
+}
+
+/**
+ * Read context length and capabilities of an Ollama model via `/api/show`.
+ * @param baseUrl The Ollama server URL (without `/api`).
+ * @param model The model name.
+ * @param headers Request headers.
+ */
+export async function fetchOllamaModelInfo(
+	baseUrl: string,
+	model: string,
+	headers: Record<string, string>
+): Promise<OllamaModelInfo> {
+	const resp = await fetch(`${baseUrl.replace(/\/+$/, "")}/api/show`, {
+		method: "POST",
+		headers: { ...headers, "Content-Type": "application/json" },
+		body: JSON.stringify({ model }),
+		signal: AbortSignal.timeout(OLLAMA_METADATA_TIMEOUT_MS),
+	});
+	if (!resp.ok) {
+		throw new Error(`Failed to fetch Ollama model info for ${model}: ${resp.status} ${resp.statusText}`);
+	}
+	const parsed = (await resp.json()) as OllamaShowResponse;
+
+	// model_info keys are prefixed with the architecture, e.g. "qwen3.context_length"
+	let contextLength: number | undefined;
+	for (const [key, value] of Object.entries(parsed.model_info ?? {})) {
+		if (key.endsWith(".context_length") && typeof value === "number") {
+			contextLength = value;
+			break;
+		}
+	}
+
+	const capabilities = parsed.capabilities;
+	return {
+		context_length: contextLength,
+		vision: capabilities ? capabilities.includes("vision") : undefined,
+		tools: capabilities ? capabilities.includes("tools") : undefined,
+	};
+}
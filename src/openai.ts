@@ -0,0 +1,442 @@
+import * as vscode from "vscode";
+import { LanguageModelResponsePart2, Progress } from "vscode";
+
+import type { ReasoningDetail, ReasoningSummaryDetail, ReasoningTextDetail, StreamDecoder, TokenUsage } from "./types";
+
+import { tryParseJSONObject } from "./utils";
+import { TextToolCall, TextToolCallParser } from "./textTools";
+import { parseToolArguments } from "./toolArguments";
+import { logger } from "./logger";
+
+/**
+ * Decodes OpenAI-compatible `/chat/completions` stream chunks into VS Code response parts.
+ * One decoder is created per request, so concurrent requests never share tool call buffers or thinking state.
+ */
+export class OpenAIStreamDecoder implements StreamDecoder {
+	/**
+	 * Buffer for assembling streamed tool calls by index.
+	 * UPDATED: Added thoughtSignature to the buffer structure.
+	 */
+	private _toolCallBuffers = new Map<number, { id?: string; name?: string; args: string; thoughtSignature?: string }>();
+
+	/** Indices for which a tool call has been fully emitted. */
+	private _completedToolCallIndices = new Set<number>();
+
+	/** Track if we emitted any assistant text before seeing tool calls (SSE-like begin-tool-calls hint). */
+	private _hasEmittedAssistantText = false;
+
+	/** Track if we emitted the begin-tool-calls whitespace flush. */
+	private _emittedBeginToolCallsHint = false;
+
+	private _textToolActive:
+		| undefined
+		| {
+				name?: string;
+				index?: number;
+				argBuffer: string;
+				emitted?: boolean;
+		  };
+	private _emittedTextToolCallKeys = new Set<string>();
+	private _emittedTextToolCallIds = new Set<string>();
+	private _textToolCallCount = 0;
+
+	// XML think block parsing state
+	private _xmlThinkActive = false;
+	private _xmlThinkDetectionAttempted = false;
+
+	// Thinking content state management
+	private _currentThinkingId: string | null = null;
+
+	usage: TokenUsage | undefined;
+
+	/**
+	 * @param progress Progress reporter for response parts.
+	 * @param thoughtSignatures Store that receives Gemini-3 thought signatures keyed by tool call id.
+	 * @param textToolParser Parser of tool calls written into the content, for text tool call formats.
+	 */
+	constructor(
+		private readonly progress: Progress<LanguageModelResponsePart2>,
+		private readonly thoughtSignatures: Map<string, string>,
+		private readonly textToolParser?: TextToolCallParser
+	) {}
+
+	/**
+	 * Handle one parsed `data:` payload from the event stream.
+	 * @param chunk The parsed chat completion chunk.
+	 */
+	processEvent(chunk: Record<string, unknown>): void {
+		// With stream_options.include_usage the last chunk carries usage and no choices
+		const usage = chunk.usage as Record<string, unknown> | undefined | null;
+		if (usage) {
+			const promptDetails = (usage.prompt_tokens_details ?? {}) as Record<string, unknown>;
+			const completionDetails = (usage.completion_tokens_details ?? {}) as Record<string, unknown>;
+			this.usage = {
+				promptTokens: Number(usage.prompt_tokens ?? 0),
+				completionTokens: Number(usage.completion_tokens ?? 0),
+				reasoningTokens: completionDetails.reasoning_tokens as number | undefined,
+				// DeepSeek reports cache hits as prompt_cache_hit_tokens
+				cachedTokens: (promptDetails.cached_tokens ?? usage.prompt_cache_hit_tokens) as number | undefined,
+			};
+		}
+		this.processDelta(chunk, this.progress);
+	}
+
+	/**
+	 * Handle the `[DONE]` marker: emit tool calls that are still buffered.
+	 */
+	finish(): void {
+		this.flushToolCallBuffers(this.progress);
+		this.flushTextToolCalls(this.progress);
+		this.flushActiveTextToolCall(this.progress);
+	}
+
+	private generateThinkingId(): string {
+		return `thinking_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+	}
+
+	private processDelta(delta: Record<string, unknown>, progress: Progress<LanguageModelResponsePart2>): boolean {
+		let emitted = false;
+		const choice = (delta.choices as Record<string, unknown>[] | undefined)?.[0];
+		if (!choice) {
+			return false;
+		}
+
+		const deltaObj = choice.delta as Record<string, unknown> | undefined;
+
+		// Process thinking content
+		try {
+			let maybeThinking =
+				(choice as Record<string, unknown> | undefined)?.thinking ??
+				(deltaObj as Record<string, unknown> | undefined)?.thinking ??
+				(deltaObj as Record<string, unknown> | undefined)?.reasoning_content;
+
+			const maybeReasoningDetails =
+				(deltaObj as Record<string, unknown>)?.reasoning_details ??
+				(choice as Record<string, unknown>)?.reasoning_details;
+
+			if (maybeReasoningDetails && Array.isArray(maybeReasoningDetails) && maybeReasoningDetails.length > 0) {
+				const details: Array<ReasoningDetail> = maybeReasoningDetails as Array<ReasoningDetail>;
+				const sortedDetails = details.sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+
+				for (const detail of sortedDetails) {
+					let extractedText = "";
+					if (detail.type === "reasoning.summary") {
+						extractedText = (detail as ReasoningSummaryDetail).summary;
+					} else if (detail.type === "reasoning.text") {
+						extractedText = (detail as ReasoningTextDetail).text;
+					} else if (detail.type === "reasoning.encrypted") {
+						extractedText = "[REDACTED]";
+					} else {
+						extractedText = JSON.stringify(detail);
+					}
+
+					if (extractedText) {
+						if (!this._currentThinkingId) {
+							this._currentThinkingId = this.generateThinkingId();
+						}
+						const metadata = { format: detail.format, type: detail.type, index: detail.index };
+						progress.report(new vscode.LanguageModelThinkingPart(extractedText, this._currentThinkingId, metadata));
+						emitted = true;
+					}
+				}
+				maybeThinking = null;
+			}
+
+			if (maybeThinking !== undefined && maybeThinking !== null) {
+				let text = "";
+				let metadata: Record<string, unknown> | undefined;
+				if (maybeThinking && typeof maybeThinking === "object") {
+					const mt = maybeThinking as Record<string, unknown>;
+					text = typeof mt["text"] === "string" ? (mt["text"] as string) : JSON.stringify(mt);
+					metadata = mt["metadata"] ? (mt["metadata"] as Record<string, unknown>) : undefined;
+				} else if (typeof maybeThinking === "string") {
+					text = maybeThinking;
+				}
+				if (text) {
+					if (!this._currentThinkingId) {
+						this._currentThinkingId = this.generateThinkingId();
+					}
+					progress.report(new vscode.LanguageModelThinkingPart(text, this._currentThinkingId, metadata));
+					emitted = true;
+				}
+			}
+		} catch (e) {
+			logger.warn("Failed to process thinking:", e);
+		}
+
+		// Process Text Content
+		if (deltaObj?.content) {
+			const content = String(deltaObj.content);
+			const xmlRes = this.processXmlThinkBlocks(content, progress);
+			if (xmlRes.emittedAny) {
+				emitted = true;
+			} else {
+				const hasVisibleContent = content.trim().length > 0;
+				if (hasVisibleContent && this._currentThinkingId) {
+					try {
+						progress.report(new vscode.LanguageModelThinkingPart("", this._currentThinkingId));
+					} catch {
+						// Ending the thinking block is best effort
+					} finally {
+						this._currentThinkingId = null;
+					}
+				}
+				const res = this.processTextContent(content, progress);
+				if (res.emittedText) {
+					this._hasEmittedAssistantText = true;
+				}
+				if (res.emittedAny) {
+					emitted = true;
+				}
+			}
+		}
+
+		// Process Tool Calls
+		if (deltaObj?.tool_calls) {
+			const toolCalls = deltaObj.tool_calls as Array<Record<string, unknown>>;
+
+			if (!this._emittedBeginToolCallsHint && this._hasEmittedAssistantText && toolCalls.length > 0) {
+				progress.report(new vscode.LanguageModelTextPart(" "));
+				this._emittedBeginToolCallsHint = true;
+			}
+
+			for (const tc of toolCalls) {
+				const idx = (tc.index as number) ?? 0;
+				if (this._completedToolCallIndices.has(idx)) {
+					continue;
+				}
+
+				const buf = this._toolCallBuffers.get(idx) ?? { args: "" };
+
+				if (tc.id && typeof tc.id === "string") {
+					buf.id = tc.id as string;
+				}
+				const func = tc.function as Record<string, unknown> | undefined;
+				if (func?.name && typeof func.name === "string") {
+					buf.name = func.name as string;
+				}
+				if (typeof func?.arguments === "string") {
+					buf.args += func.arguments as string;
+				}
+
+				// ---------------------------------------------------------
+				// CAPTURE THOUGHT SIGNATURE from stream
+				// ---------------------------------------------------------
+				const providerFields = tc.provider_specific_fields as Record<string, unknown> | undefined;
+				if (providerFields && typeof providerFields.thought_signature === "string") {
+					buf.thoughtSignature = providerFields.thought_signature;
+					// Also save immediately if we have ID, in case it's split
+					if (buf.id) {
+						this.thoughtSignatures.set(buf.id, buf.thoughtSignature);
+					}
+				}
+				// ---------------------------------------------------------
+
+				this._toolCallBuffers.set(idx, buf);
+				this.tryEmitBufferedToolCall(idx, progress);
+			}
+		}
+
+		const finish = (choice.finish_reason as string | undefined) ?? undefined;
+		if (finish === "tool_calls" || finish === "stop") {
+			this.flushToolCallBuffers(progress);
+		}
+		if (finish) {
+			this.flushTextToolCalls(progress);
+		}
+		return emitted;
+	}
+
+	private processTextContent(
+		input: string,
+		progress: Progress<LanguageModelResponsePart2>
+	): { emittedText: boolean; emittedAny: boolean } {
+		let emittedText = false;
+		let emittedAny = false;
+		const segments = this.textToolParser ? this.textToolParser.push(input) : [input];
+		for (const segment of segments) {
+			if (typeof segment !== "string") {
+				emittedAny = this.emitTextToolCall(progress, segment) || emittedAny;
+			} else if (segment.length > 0) {
+				progress.report(new vscode.LanguageModelTextPart(segment));
+				emittedText = true;
+				emittedAny = true;
+			}
+		}
+		return { emittedText, emittedAny };
+	}
+
+	/**
+	 * Emit a tool call parsed out of the content.
+	 */
+	private emitTextToolCall(progress: Progress<LanguageModelResponsePart2>, call: TextToolCall): boolean {
+		this._textToolActive = { name: call.name, index: this._textToolCallCount++, argBuffer: call.args };
+		this.flushActiveTextToolCall(progress);
+		return true;
+	}
+
+	/**
+	 * Release the content the text tool call parser holds back, at the end of the response.
+	 */
+	private flushTextToolCalls(progress: Progress<LanguageModelResponsePart2>): void {
+		for (const segment of this.textToolParser?.flush() ?? []) {
+			if (typeof segment === "string") {
+				progress.report(new vscode.LanguageModelTextPart(segment));
+			} else {
+				this.emitTextToolCall(progress, segment);
+			}
+		}
+	}
+
+	private emitTextToolCallIfValid(
+		progress: Progress<LanguageModelResponsePart2>,
+		call: { name?: string; index?: number; argBuffer: string; emitted?: boolean },
+		argText: string
+	): boolean {
+		const name = call.name ?? "unknown_tool";
+		const args = parseToolArguments(argText, name);
+
+		const canonical = JSON.stringify(args);
+		const key = `${name}:${canonical}`;
+		if (typeof call.index === "number") {
+			const idKey = `${name}:${call.index}`;
+			if (this._emittedTextToolCallIds.has(idKey)) {
+				return false;
+			}
+			this._emittedTextToolCallIds.add(idKey);
+		} else if (this._emittedTextToolCallKeys.has(key)) {
+			return false;
+		}
+		this._emittedTextToolCallKeys.add(key);
+		const id = `tct_${Math.random().toString(36).slice(2, 10)}`;
+		progress.report(new vscode.LanguageModelToolCallPart(id, name, args));
+		return true;
+	}
+
+	private flushActiveTextToolCall(progress: Progress<LanguageModelResponsePart2>): void {
+		if (!this._textToolActive) {
+			return;
+		}
+		this.emitTextToolCallIfValid(progress, this._textToolActive, this._textToolActive.argBuffer);
+		this._textToolActive = undefined;
+	}
+
+	private tryEmitBufferedToolCall(index: number, progress: Progress<LanguageModelResponsePart2>): void {
+		const buf = this._toolCallBuffers.get(index);
+		if (!buf || !buf.name) {
+			return;
+		}
+
+		const canParse = tryParseJSONObject(buf.args);
+		if (!canParse.ok) {
+			return;
+		}
+
+		const id = buf.id ?? `call_${Math.random().toString(36).slice(2, 10)}`;
+
+		// Save signature permanently if present in buffer (and not already saved)
+		if (buf.thoughtSignature) {
+			this.thoughtSignatures.set(id, buf.thoughtSignature);
+		}
+
+		const parameters = canParse.value;
+		try {
+			const canonical = JSON.stringify(parameters);
+			this._emittedTextToolCallKeys.add(`${buf.name}:${canonical}`);
+		} catch {
+			// Non-serializable arguments only skip deduplication
+		}
+
+		progress.report(new vscode.LanguageModelToolCallPart(id, buf.name, parameters));
+		this._toolCallBuffers.delete(index);
+		this._completedToolCallIndices.add(index);
+	}
+
+	/**
+	 * Emit the tool calls still buffered when the response ends. Arguments that did not parse while
+	 * streaming are repaired, or reported with an error for the model.
+	 */
+	private flushToolCallBuffers(progress: Progress<LanguageModelResponsePart2>): void {
+		if (this._toolCallBuffers.size === 0) {
+			return;
+		}
+
+		for (const [idx, buf] of Array.from(this._toolCallBuffers.entries())) {
+			this._toolCallBuffers.delete(idx);
+			if (!buf.name && !buf.args.trim()) {
+				continue;
+			}
+
+			const id = buf.id ?? `call_${Math.random().toString(36).slice(2, 10)}`;
+			const name = buf.name ?? "unknown_tool";
+			const args = parseToolArguments(buf.args, name);
+
+			// Save signature permanently during flush
+			if (buf.thoughtSignature) {
+				this.thoughtSignatures.set(id, buf.thoughtSignature);
+			}
+
+			try {
+				const canonical = JSON.stringify(args);
+				this._emittedTextToolCallKeys.add(`${name}:${canonical}`);
+			} catch {
+				// Non-serializable arguments only skip deduplication
+			}
+
+			progress.report(new vscode.LanguageModelToolCallPart(id, name, args));
+			this._completedToolCallIndices.add(idx);
+		}
+	}
+
+	private processXmlThinkBlocks(
+		input: string,
+		progress: Progress<LanguageModelResponsePart2>
+	): { emittedAny: boolean } {
+		if (this._xmlThinkDetectionAttempted && !this._xmlThinkActive) {
+			return { emittedAny: false };
+		}
+
+		const THINK_START = "<think>";
+		const THINK_END = "</think>";
+		let data = input;
+		let emittedAny = false;
+
+		while (data.length > 0) {
+			if (!this._xmlThinkActive) {
+				const startIdx = data.indexOf(THINK_START);
+				if (startIdx === -1) {
+					this._xmlThinkDetectionAttempted = true;
+					data = "";
+					break;
+				}
+				this._xmlThinkActive = true;
+				this._currentThinkingId = this.generateThinkingId();
+				data = data.slice(startIdx + THINK_START.length);
+				continue;
+			}
+
+			const endIdx = data.indexOf(THINK_END);
+			if (endIdx === -1) {
+				const thinkContent = data.trim();
+				if (thinkContent) {
+					progress.report(new vscode.LanguageModelThinkingPart(thinkContent, this._currentThinkingId || undefined));
+					emittedAny = true;
+				}
+				data = "";
+				break;
+			}
+
+			const thinkContent = data.slice(0, endIdx);
+			if (thinkContent) {
+				progress.report(new vscode.LanguageModelThinkingPart(thinkContent, this._currentThinkingId || undefined));
+				emittedAny = true;
+			}
+
+			this._xmlThinkActive = false;
+			this._currentThinkingId = null;
+			data = data.slice(endIdx + THINK_END.length);
+		}
+
+		return { emittedAny };
+	}
+}
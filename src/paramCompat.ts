@@ -0,0 +1,124 @@
+import * as vscode from "vscode";
+
+import { ApiError } from "./apiError";
+import { logger } from "./logger";
+
+const UNSUPPORTED_PARAMS_KEY = "oaicopilot.unsupportedParams";
+
+/** Optional request body fields that can be dropped when a provider rejects them. */
+const STRIPPABLE_PARAMETERS = [
+	"temperature",
+	"top_p",
+	"top_k",
+	"min_p",
+	"frequency_penalty",
+	"presence_penalty",
+	"repetition_penalty",
+	"max_tokens",
+	"reasoning_effort",
+	"reasoning",
+	"enable_thinking",
+	"thinking_budget",
+	"thinking",
+	"stream_options",
+	"parallel_tool_calls",
+];
+
+/** Wording of "unsupported parameter" errors across OpenAI, Azure, Mistral, vLLM and others. */
+const UNSUPPORTED_PATTERN =
+	/unsupported|not supported|unrecognized|unknown (?:parameter|field|argument)|not allowed|not permitted|extra inputs|does not support/i;
+
+/**
+ * Remembers request parameters that a model rejected, per provider and model, in `globalState`,
+ * so later requests omit them up front.
+ */
+export class ParameterCompatibility {
+	constructor(private readonly state: vscode.Memento) {}
+
+	/**
+	 * The parameters learned to be unsupported by a model.
+	 * @param provider The provider of the request (owned_by or host).
+	 * @param modelId The model id sent to the API.
+	 */
+	unsupported(provider: string, modelId: string): string[] {
+		return this.read()[entryKey(provider, modelId)] ?? [];
+	}
+
+	/**
+	 * Remember that a model rejected a parameter.
+	 * @param provider The provider of the request (owned_by or host).
+	 * @param modelId The model id sent to the API.
+	 * @param param The rejected body field.
+	 */
+	async learn(provider: string, modelId: string, param: string): Promise<void> {
+		const entries = this.read();
+		const key = entryKey(provider, modelId);
+		const params = entries[key] ?? [];
+		if (params.includes(param)) {
+			return;
+		}
+		entries[key] = [...params, param];
+		await this.state.update(UNSUPPORTED_PARAMS_KEY, entries);
+		logger.info(`Learned that ${modelId} via ${provider} does not support "${param}"`);
+	}
+
+	/**
+	 * Forget every learned parameter.
+	 * @returns The number of parameters forgotten.
+	 */
+	async reset(): Promise<number> {
+		const count = Object.values(this.read()).reduce((sum, params) => sum + params.length, 0);
+		await this.state.update(UNSUPPORTED_PARAMS_KEY, undefined);
+		return count;
+	}
+
+	private read(): Record<string, string[]> {
+		return { ...this.state.get<Record<string, string[]>>(UNSUPPORTED_PARAMS_KEY, {}) };
+	}
+}
+
+function entryKey(provider: string, modelId: string): string {
+	return `${provider.toLowerCase()}|${modelId}`;
+}
+
+/**
+ * Find the body field a provider rejected as unsupported in a 400 or 422 response. Only optional
+ * fields present in the request body are considered, and only when the error says the field is
+ * unsupported: an error about its value, such as "max_tokens is too large", is not one.
+ * @param error The error of the failed request.
+ * @param body The request body that was sent.
+ * @returns The field to drop, or undefined when the error is not about an unsupported parameter.
+ */
+export function findUnsupportedParameter(error: unknown, body: Record<string, unknown>): string | undefined {
+	if (!(error instanceof ApiError) || (error.status !== 400 && error.status !== 422)) {
+		return undefined;
+	}
+	const present = STRIPPABLE_PARAMETERS.filter((p) => body[p] !== undefined);
+	if (present.length === 0) {
+		return undefined;
+	}
+
+	const parsed = error.body && typeof error.body === "object" ? (error.body as Record<string, unknown>) : {};
+	const err = parsed.error && typeof parsed.error === "object" ? (parsed.error as Record<string, unknown>) : {};
+	// OpenAI and Azure also say so in error.code, e.g. "unsupported_parameter" or "unknown_parameter"
+	if (!UNSUPPORTED_PATTERN.test(error.bodyText) && !UNSUPPORTED_PATTERN.test(error.code?.replace(/_/g, " ") ?? "")) {
+		return undefined;
+	}
+
+	// OpenAI and Azure name the field in error.param
+	if (typeof err.param === "string" && present.includes(err.param)) {
+		return err.param;
+	}
+	// FastAPI validation errors (Mistral, vLLM) point at the field with loc: ["body", "<field>"],
+	// next to errors about other fields' values
+	if (Array.isArray(parsed.detail)) {
+		for (const item of parsed.detail) {
+			const loc = item && typeof item === "object" ? (item as Record<string, unknown>).loc : undefined;
+			const field = Array.isArray(loc) ? loc[loc.length - 1] : undefined;
+			if (typeof field === "string" && present.includes(field) && UNSUPPORTED_PATTERN.test(JSON.stringify(item))) {
+				return field;
+			}
+		}
+	}
+	return present.find((p) => new RegExp(`(^|[^\\w])${p}([^\\w]|$)`).test(error.bodyText));
+}
@@ -0,0 +1,215 @@
+import * as vscode from "vscode";
+
+import type { ApiMode, HFModelItem, ReasoningConfig } from "./types";
+
+/**
+ * How a provider expects the API key: as a bearer token, or not at all for local servers.
+ */
+export type PresetAuthStyle = "bearer" | "none";
+
+/**
+ * The request field a provider reads to switch reasoning on or off.
+ */
+export type ReasoningKnob = "thinking" | "enable_thinking" | "reasoning" | "reasoning_effort";
+
+/**
+ * Known endpoint and parameter quirks of a provider, selected with a model's `preset`.
+ */
+export interface ProviderPreset {
+	label: string;
+	baseUrl: string;
+	apiMode?: ApiMode;
+	auth: PresetAuthStyle;
+	/** Headers sent underneath the model's own `headers`. */
+	headers?: Record<string, string>;
+	/** The reasoning field the provider reads. Unset when reasoning depends only on the model. */
+	reasoning?: ReasoningKnob;
+	/** Model id suggested when adding a model for this preset. */
+	exampleModel: string;
+}
+
+/**
+ * Bundled catalog of provider presets, keyed by the `preset` value. Each key is also the
+ * `owned_by` used for models added from the preset, so their API keys are grouped under it.
+ */
+export const PROVIDER_PRESETS: Record<string, ProviderPreset> = {
+	deepseek: {
+		label: "DeepSeek",
+		baseUrl: "https://api.deepseek.com/v1",
+		auth: "bearer",
+		exampleModel: "deepseek-chat",
+	},
+	siliconflow: {
+		label: "SiliconFlow",
+		baseUrl: "https://api.siliconflow.cn/v1",
+		auth: "bearer",
+		reasoning: "enable_thinking",
+		exampleModel: "Qwen/Qwen3-Coder-480B-A35B-Instruct",
+	},
+	modelscope: {
+		label: "ModelScope",
+		baseUrl: "https://api-inference.modelscope.cn/v1",
+		auth: "bearer",
+		reasoning: "enable_thinking",
+		exampleModel: "Qwen/Qwen3-Coder-480B-A35B-Instruct",
+	},
+	openrouter: {
+		label: "OpenRouter",
+		baseUrl: "https://openrouter.ai/api/v1",
+		auth: "bearer",
+		headers: {
+			"HTTP-Referer": "https://github.com/JohnnyZ93/oai-compatible-copilot",
+			"X-Title": "OAI Compatible Copilot",
+		},
+		reasoning: "reasoning",
+		exampleModel: "anthropic/claude-sonnet-4",
+	},
+	zai: {
+		label: "Z.ai",
+		baseUrl: "https://api.z.ai/api/paas/v4",
+		auth: "bearer",
+		reasoning: "thinking",
+		exampleModel: "glm-4.6",
+	},
+	moonshot: {
+		label: "Moonshot",
+		baseUrl: "https://api.moonshot.ai/v1",
+		auth: "bearer",
+		reasoning: "thinking",
+		exampleModel: "kimi-k2-0905-preview",
+	},
+	groq: {
+		label: "Groq",
+		baseUrl: "https://api.groq.com/openai/v1",
+		auth: "bearer",
+		reasoning: "reasoning_effort",
+		exampleModel: "openai/gpt-oss-120b",
+	},
+	vllm: {
+		label: "vLLM (local)",
+		baseUrl: "http://localhost:8000/v1",
+		auth: "none",
+		exampleModel: "Qwen/Qwen3-8B",
+	},
+	lmstudio: {
+		label: "LM Studio (local)",
+		baseUrl: "http://localhost:1234/v1",
+		auth: "none",
+		exampleModel: "qwen/qwen3-8b",
+	},
+};
+
+/**
+ * Look up the preset of a model. Unknown presets are reported by the configuration checks.
+ * @param um The model configuration, if any.
+ */
+export function findPreset(um: HFModelItem | undefined): ProviderPreset | undefined {
+	return um?.preset ? PROVIDER_PRESETS[um.preset.toLowerCase()] : undefined;
+}
+
+/**
+ * Apply a model's preset underneath its explicit fields: the preset's base URL, API mode and headers
+ * fill what the entry leaves unset, and a reasoning setting is moved to the field the provider reads.
+ * @param um The model configuration, if any.
+ * @returns The model configuration with the preset applied, or `um` when it has no preset.
+ */
+export function applyPreset(um: HFModelItem | undefined): HFModelItem | undefined {
+	const preset = findPreset(um);
+	if (!um || !preset) {
+		return um;
+	}
+	const resolved: HFModelItem = {
+		...um,
+		baseUrl: um.baseUrl || preset.baseUrl,
+		apiMode: um.apiMode ?? preset.apiMode,
+		headers: preset.headers || um.headers ? { ...preset.headers, ...um.headers } : undefined,
+	};
+	return preset.reasoning ? moveReasoning(resolved, preset.reasoning) : resolved;
+}
+
+/**
+ * Translate whichever reasoning field the user set into the one the provider reads, so `thinking`,
+ * `enable_thinking`, `reasoning` and `reasoning_effort` work with every preset.
+ */
+function moveReasoning(um: HFModelItem, knob: ReasoningKnob): HFModelItem {
+	if (um[knob] !== undefined) {
+		return um;
+	}
+
+	let enabled: boolean | undefined;
+	let effort: string | undefined;
+	let budget: number | undefined;
+	if (um.thinking?.type !== undefined) {
+		enabled = um.thinking.type !== "disabled";
+		budget = um.thinking.budget_tokens;
+	} else if (um.enable_thinking !== undefined) {
+		enabled = um.enable_thinking;
+		budget = um.thinking_budget;
+	} else if (um.reasoning !== undefined) {
+		enabled = um.reasoning.enabled !== false;
+		effort = um.reasoning.effort !== "auto" ? um.reasoning.effort : undefined;
+		budget = um.reasoning.max_tokens;
+	} else if (um.reasoning_effort !== undefined) {
+		enabled = um.reasoning_effort !== "none";
+		effort = enabled ? um.reasoning_effort : undefined;
+	} else {
+		return um;
+	}
+
+	const moved: HFModelItem = {
+		...um,
+		thinking: undefined,
+		enable_thinking: undefined,
+		thinking_budget: undefined,
+		reasoning: undefined,
+		reasoning_effort: undefined,
+	};
+	switch (knob) {
+		case "thinking":
+			moved.thinking = { type: enabled ? "enabled" : "disabled", budget_tokens: budget };
+			break;
+		case "enable_thinking":
+			moved.enable_thinking = enabled;
+			moved.thinking_budget = enabled ? budget : undefined;
+			break;
+		case "reasoning": {
+			const reasoning: ReasoningConfig = enabled ? { effort, max_tokens: budget } : { enabled: false };
+			moved.reasoning = reasoning;
+			break;
+		}
+		case "reasoning_effort":
+			// There is no portable "off" value, leave the provider default when reasoning is disabled
+			moved.reasoning_effort = enabled ? (effort ?? "medium") : undefined;
+			break;
+	}
+	return moved;
+}
+
+/**
+ * Ask for a model id and add a model using a preset to `oaicopilot.models`, in the workspace
+ * settings when they define the models, otherwise in the user settings.
+ * @param presetId Key of the preset in the catalog.
+ */
+export async function addPresetModel(presetId: string): Promise<void> {
+	const preset = PROVIDER_PRESETS[presetId];
+	const id = await vscode.window.showInputBox({
+		title: `Add ${preset.label} Model`,
+		prompt: `Model id at ${preset.baseUrl}`,
+		value: preset.exampleModel,
+		ignoreFocusOut: true,
+	});
+	if (!id?.trim()) {
+		return; // user canceled
+	}
+
+	const config = vscode.workspace.getConfiguration();
+	const inspected = config.inspect<HFModelItem[]>("oaicopilot.models");
+	const target =
+		inspected?.workspaceValue !== undefined ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+	const models = [
+		...((target === vscode.ConfigurationTarget.Workspace ? inspected?.workspaceValue : inspected?.globalValue) ?? []),
+	];
+	models.push({ id: id.trim(), owned_by: presetId, preset: presetId });
+	await config.update("oaicopilot.models", models, target);
+	vscode.window.showInformationMessage(`Added ${id.trim()} via ${preset.label} to oaicopilot.models.`);
+}
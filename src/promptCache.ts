@@ -0,0 +1,107 @@
+import type {
+	AnthropicMessage,
+	AnthropicToolDef,
+	CacheControl,
+	OpenAIChatMessage,
+	OpenAIFunctionToolDef,
+} from "./types";
+
+/** Anthropic routes accept at most four cache breakpoints per request. */
+const MAX_CACHE_BREAKPOINTS = 4;
+
+/** Messages shorter than this (about 1024 tokens, the smallest cacheable prefix) are not worth a breakpoint. */
+const MIN_CACHED_MESSAGE_CHARS = 4096;
+
+const EPHEMERAL: CacheControl = { type: "ephemeral" };
+
+/**
+ * Add `cache_control` breakpoints to an OpenAI-compatible `/chat/completions` body: the last system
+ * message, the last tool definition and the most recent large messages. String content is turned
+ * into a content array so the breakpoint can be attached to its text part.
+ * @param body The request body, modified in place.
+ */
+export function applyOpenAICacheBreakpoints(body: Record<string, unknown>): void {
+	const messages = Array.isArray(body.messages) ? (body.messages as OpenAIChatMessage[]) : [];
+	const tools = Array.isArray(body.tools) ? (body.tools as OpenAIFunctionToolDef[]) : [];
+	let remaining = MAX_CACHE_BREAKPOINTS;
+
+	const system = messages.findLast((m) => m.role === "system");
+	if (system && markOpenAIMessage(system)) {
+		remaining--;
+	}
+
+	if (tools.length > 0) {
+		tools[tools.length - 1].cache_control = EPHEMERAL;
+		remaining--;
+	}
+
+	for (let i = messages.length - 1; i >= 0 && remaining > 0; i--) {
+		const message = messages[i];
+		if (message.role !== "system" && openAIContentLength(message) >= MIN_CACHED_MESSAGE_CHARS) {
+			if (markOpenAIMessage(message)) {
+				remaining--;
+			}
+		}
+	}
+}
+
+/**
+ * Add `cache_control` breakpoints to an Anthropic `/messages` body: the system prompt, the last tool
+ * definition and the most recent large messages.
+ * @param body The request body, modified in place.
+ */
+export function applyAnthropicCacheBreakpoints(body: Record<string, unknown>): void {
+	const messages = Array.isArray(body.messages) ? (body.messages as AnthropicMessage[]) : [];
+	const tools = Array.isArray(body.tools) ? (body.tools as AnthropicToolDef[]) : [];
+	let remaining = MAX_CACHE_BREAKPOINTS;
+
+	if (typeof body.system === "string" && body.system) {
+		body.system = [{ type: "text", text: body.system, cache_control: EPHEMERAL }];
+		remaining--;
+	}
+
+	if (tools.length > 0) {
+		tools[tools.length - 1].cache_control = EPHEMERAL;
+		remaining--;
+	}
+
+	for (let i = messages.length - 1; i >= 0 && remaining > 0; i--) {
+		const message = messages[i];
+		if (JSON.stringify(message.content).length < MIN_CACHED_MESSAGE_CHARS) {
+			continue;
+		}
+		// Thinking blocks cannot carry a breakpoint
+		const block = message.content.findLast((b) => b.type !== "thinking" && b.type !== "redacted_thinking");
+		if (block) {
+			block.cache_control = EPHEMERAL;
+			remaining--;
+		}
+	}
+}
+
+function openAIContentLength(message: OpenAIChatMessage): number {
+	if (typeof message.content === "string") {
+		return message.content.length;
+	}
+	return (message.content ?? []).reduce((sum, part) => sum + (part.text?.length ?? 0), 0);
+}
+
+/**
+ * Attach a breakpoint to the last text part of a message.
+ * @returns Whether the message had text to attach it to.
+ */
+function markOpenAIMessage(message: OpenAIChatMessage): boolean {
+	if (typeof message.content === "string") {
+		if (!message.content) {
+			return false;
+		}
+		message.content = [{ type: "text", text: message.content, cache_control: EPHEMERAL }];
+		return true;
+	}
+	const part = message.content?.findLast((p) => p.type === "text");
+	if (!part) {
+		return false;
+	}
+	part.cache_control = EPHEMERAL;
+	return true;
+}
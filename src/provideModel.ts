@@ -1,7 +1,10 @@
 import * as vscode from "vscode";
 import { CancellationToken, LanguageModelChatInformation } from "vscode";
 
-import type { HFModelItem, HFModelsResponse } from "./types";
+import type { HFModelItem } from "./types";
+import { ModelDiscovery } from "./discovery";
+import { OLLAMA_WILDCARD_ID, fetchOllamaModels, getOllamaModelInfo, prepareOllamaHeaders } from "./ollama";
+import { logger } from "./logger";
 
 const DEFAULT_CONTEXT_LENGTH = 128000;
 const DEFAULT_MAX_TOKENS = 4096;
@@ -10,155 +13,145 @@ const DEFAULT_MAX_TOKENS = 4096;
  * Get the list of available language models contributed by this provider
  * @param options Options which specify the calling context of this function
  * @param token A cancellation token which signals if the user cancelled the request or not
+ * @param discovery Discovery merging models from the configured endpoints, if any
  * @returns A promise that resolves to the list of available language models
  */
 export async function prepareLanguageModelChatInformation(
 	options: { silent: boolean },
 	_token: CancellationToken,
 	secrets: vscode.SecretStorage,
-	userAgent: string
+	userAgent: string,
+	discovery?: ModelDiscovery
 ): Promise<LanguageModelChatInformation[]> {
 	// Check for user-configured models first
 	const config = vscode.workspace.getConfiguration();
-	const userModels = config.get<HFModelItem[]>("oaicopilot.models", []);
-
-	let infos: LanguageModelChatInformation[];
-	if (userModels && userModels.length > 0) {
-		// Return user-provided models directly
-		infos = userModels.map((m) => {
-			const contextLen = m?.context_length ?? DEFAULT_CONTEXT_LENGTH;
-			const maxOutput = m?.max_completion_tokens ?? m?.max_tokens ?? DEFAULT_MAX_TOKENS;
-			const maxInput = Math.max(1, contextLen - maxOutput);
-
-			// 使用配置ID（如果存在）来生成唯一的模型ID
-			const modelId = m.configId ? `${m.id}::${m.configId}` : m.id;
-			const modelName =
-				m.displayName || (m.configId ? `${m.id}::${m.configId} via ${m.owned_by}` : `${m.id} via ${m.owned_by}`);
-
-			return {
-				id: modelId,
-				name: modelName,
-				tooltip: m.configId
-					? `OAI Compatible ${m.id} (config: ${m.configId}) via ${m.owned_by}`
-					: `OAI Compatible via ${m.owned_by}`,
-				family: m.family ?? "oai-compatible",
-				version: "1.0.0",
-				maxInputTokens: maxInput,
-				maxOutputTokens: maxOutput,
-				capabilities: {
-					toolCalling: true,
-					imageInput: m?.vision ?? false,
-				},
-			} satisfies LanguageModelChatInformation;
-		});
-	} else {
-		// Fallback: Fetch models from API
-		const apiKey = await ensureApiKey(options.silent, secrets);
-		if (!apiKey) {
-			if (options.silent) {
-				return [];
-			} else {
-				throw new Error("OAI Compatible API key not found");
+	const configuredModels = config.get<HFModelItem[]>("oaicopilot.models", []);
+	const resolvedModels = await resolveOllamaModels(configuredModels, secrets, userAgent);
+
+	let userModels = resolvedModels;
+	if (discovery) {
+		if (configuredModels.length === 0) {
+			// Without configured models, list the models of the global base URL
+			const apiKey = await ensureApiKey(options.silent, secrets);
+			if (!apiKey) {
+				if (options.silent) {
+					return [];
+				} else {
+					throw new Error("OAI Compatible API key not found");
+				}
 			}
+			userModels = await discovery.discover([], apiKey);
+		} else {
+			userModels = await discovery.discover(resolvedModels);
 		}
-		const { models } = await fetchModels(apiKey, userAgent);
-
-		infos = models.flatMap((m) => {
-			const providers = m?.providers ?? [];
-			const modalities = m.architecture?.input_modalities ?? [];
-			const vision = Array.isArray(modalities) && modalities.includes("image");
-
-			// Build entries for all providers that support tool calling
-			const toolProviders = providers.filter((p) => p.supports_tools === true);
-			const entries: LanguageModelChatInformation[] = [];
-
-			for (const p of toolProviders) {
-				const contextLen = p?.context_length ?? DEFAULT_CONTEXT_LENGTH;
-				const maxOutput = DEFAULT_MAX_TOKENS;
-				const maxInput = Math.max(1, contextLen - maxOutput);
-				entries.push({
-					id: `${m.id}:${p.provider}`,
-					name: `${m.id} via ${p.provider}`,
-					tooltip: `OAI Compatible via ${p.provider}`,
-					family: m.family ?? "oai-compatible",
-					version: "1.0.0",
-					maxInputTokens: maxInput,
-					maxOutputTokens: maxOutput,
-					capabilities: {
-						toolCalling: true,
-						imageInput: vision,
-					},
-				} satisfies LanguageModelChatInformation);
-			}
-
-			if (entries.length === 0) {
-				const base = providers.length > 0 ? providers[0] : null;
-				const contextLen = base?.context_length ?? DEFAULT_CONTEXT_LENGTH;
-				const maxOutput = DEFAULT_MAX_TOKENS;
-				const maxInput = Math.max(1, contextLen - maxOutput);
-				entries.push({
-					id: `${m.id}`,
-					name: `${m.id} via OAI Compatible`,
-					tooltip: "OAI Compatible",
-					family: m.family ?? "oai-compatible",
-					version: "1.0.0",
-					maxInputTokens: maxInput,
-					maxOutputTokens: maxOutput,
-					capabilities: {
-						toolCalling: true,
-						imageInput: true,
-					},
-				} satisfies LanguageModelChatInformation);
-			}
-
-			return entries;
-		});
 	}
 
+	const infos = userModels.map((m) => {
+		const contextLen = m?.context_length ?? DEFAULT_CONTEXT_LENGTH;
+		const maxOutput = m?.max_completion_tokens ?? m?.max_tokens ?? DEFAULT_MAX_TOKENS;
+		const maxInput = Math.max(1, contextLen - maxOutput);
+
+		// 使用配置ID（如果存在）来生成唯一的模型ID
+		const modelId = m.configId ? `${m.id}::${m.configId}` : m.id;
+		const modelName =
+			m.displayName || (m.configId ? `${m.id}::${m.configId} via ${m.owned_by}` : `${m.id} via ${m.owned_by}`);
+
+		return {
+			id: modelId,
+			name: modelName,
+			tooltip: m.configId
+				? `OAI Compatible ${m.id} (config: ${m.configId}) via ${m.owned_by}`
+				: `OAI Compatible via ${m.owned_by}`,
+			family: m.family ?? "oai-compatible",
+			version: "1.0.0",
+			maxInputTokens: maxInput,
+			maxOutputTokens: maxOutput,
+			capabilities: {
+				toolCalling: m?.toolCalling ?? true,
+				imageInput: m?.vision ?? false,
+			},
+		} satisfies LanguageModelChatInformation;
+	});
+
 	// debug log
-	// console.log("[OAI Compatible Model Provider] Loaded models:", infos);
+	// logger.info("Loaded models:", infos);
 	return infos;
 }
 
 /**
- * Fetch the list of models and supplementary metadata from Hugging Face.
- * @param apiKey The HF API key used to authenticate.
+ * Expand and enrich `apiMode: "ollama"` entries from the Ollama server itself.
+ * An entry with id "*" expands to every model from `/api/tags`, and `/api/show` fills
+ * `context_length`, `vision` and `toolCalling` unless they are configured explicitly. The `/api/show` requests run in
+ * parallel and their results are cached.
+ * Explicit entries whose server cannot be reached are kept as configured, wildcard entries are skipped.
+ * @param userModels The configured models.
+ * @param secrets vscode.SecretStorage
+ * @param userAgent The extension User-Agent.
  */
-async function fetchModels(apiKey: string, userAgent: string): Promise<{ models: HFModelItem[] }> {
-	const config = vscode.workspace.getConfiguration();
-	const BASE_URL = config.get<string>("oaicopilot.baseUrl", "");
-	if (!BASE_URL || !BASE_URL.startsWith("http")) {
-		throw new Error(`Invalid base URL configuration.`);
+async function resolveOllamaModels(
+	userModels: HFModelItem[],
+	secrets: vscode.SecretStorage,
+	userAgent: string
+): Promise<HFModelItem[]> {
+	if (!userModels.some((m) => m.apiMode === "ollama")) {
+		return userModels;
 	}
-	const modelsList = (async () => {
-		const resp = await fetch(`${BASE_URL.replace(/\/+$/, "")}/models`, {
-			method: "GET",
-			headers: { Authorization: `Bearer ${apiKey}`, "User-Agent": userAgent },
-		});
-		if (!resp.ok) {
-			let text = "";
+
+	const config = vscode.workspace.getConfiguration();
+	const resolved: HFModelItem[] = [];
+	for (const m of userModels) {
+		if (m.apiMode !== "ollama") {
+			resolved.push(m);
+			continue;
+		}
+
+		const baseUrl = m.baseUrl || config.get<string>("oaicopilot.baseUrl", "");
+		const apiKey =
+			(m.owned_by ? await secrets.get(`oaicopilot.apiKey.${m.owned_by.toLowerCase()}`) : undefined) ??
+			(await secrets.get("oaicopilot.apiKey"));
+		const headers = prepareOllamaHeaders(apiKey, userAgent, m);
+
+		let entries: HFModelItem[] = [m];
+		if (m.id === OLLAMA_WILDCARD_ID) {
 			try {
-				text = await resp.text();
-			} catch (error) {
-				console.error("[OAI Compatible Model Provider] Failed to read response text", error);
+				const names = await fetchOllamaModels(baseUrl, headers);
+				// Explicit entries for the same server take precedence over the wildcard
+				entries = names
+					.filter(
+						(name) =>
+							!userModels.some(
+								(um) => um.id === name && um.apiMode === "ollama" && (um.baseUrl || "") === (m.baseUrl || "")
+							)
+					)
+					.map((name) => ({ ...m, id: name }));
+			} catch (err) {
+				logger.error("Failed to list Ollama models", err);
+				continue;
 			}
-			const err = new Error(
-				`Failed to fetch OAI Compatible models: ${resp.status} ${resp.statusText}${text ? `\n${text}` : ""}`
-			);
-			console.error("[OAI Compatible Model Provider] Failed to fetch OAI Compatible models", err);
-			throw err;
 		}
-		const parsed = (await resp.json()) as HFModelsResponse;
-		return parsed.data ?? [];
-	})();
 
-	try {
-		const models = await modelsList;
-		return { models };
-	} catch (err) {
-		console.error("[OAI Compatible Model Provider] Failed to fetch OAI Compatible models", err);
-		throw err;
+		const enriched = await Promise.all(
+			entries.map(async (entry) => {
+				if (entry.context_length !== undefined && entry.vision !== undefined && entry.toolCalling !== undefined) {
+					return entry;
+				}
+				try {
+					const info = await getOllamaModelInfo(baseUrl, entry.id, headers);
+					return {
+						...entry,
+						context_length: entry.context_length ?? info.context_length,
+						vision: entry.vision ?? info.vision,
+						toolCalling: entry.toolCalling ?? info.tools,
+					};
+				} catch (err) {
+					logger.error("Failed to read Ollama model info", err);
+					return entry;
+				}
+			})
+		);
+		resolved.push(...enriched);
 	}
+	return resolved;
 }
 
 /**
@@ -1,34 +1,65 @@
 import * as vscode from "vscode";
 import { CancellationToken, LanguageModelChatInformation, LanguageModelChatRequestMessage } from "vscode";
+import { createHash } from "crypto";
+import type { Tiktoken, TiktokenBPE } from "js-tiktoken/lite" with { "resolution-mode": "import" };
+
+import type { HFModelItem, TokenizerName } from "./types";
+import { logger } from "./logger";
+
+type BpeEncoding = "o200k_base" | "cl100k_base" | "llama3" | "qwen" | "deepseek";
+
+/**
+ * BPE ranks used for each tokenizer. The OpenAI ranks ship with js-tiktoken, the others are
+ * converted from the models' own vocabularies into assets/tokenizers by `npm run build-ranks`.
+ */
+const TOKENIZER_ENCODINGS: Record<Exclude<TokenizerName, "heuristic">, BpeEncoding> = {
+	o200k: "o200k_base",
+	cl100k: "cl100k_base",
+	llama3: "llama3",
+	qwen: "qwen",
+	deepseek: "deepseek",
+};
+
+/** Maximum number of cached text token counts. */
+const TOKEN_CACHE_MAX_ENTRIES = 5000;
+
+/**
+ * Token counts of recently counted texts, keyed by tokenizer and a hash of the text, in least
+ * recently used order. Hashing keeps large tool results from being held in memory by the cache.
+ */
+const tokenCountCache = new Map<string, number>();
+
+/** Encoders are loaded lazily, the rank tables are several megabytes. */
+const encoders = new Map<BpeEncoding, Promise<Tiktoken | undefined>>();
 
 /**
  * Returns the number of tokens for a given text using the model specific tokenizer logic
  * @param model The language model to use
  * @param text The text to count tokens for
  * @param token A cancellation token for the request
+ * @param um The model configuration, if any, used to select the tokenizer
  * @returns A promise that resolves to the number of tokens
  */
 export async function prepareTokenCount(
 	model: LanguageModelChatInformation,
 	text: string | LanguageModelChatRequestMessage,
-	_token: CancellationToken
+	_token: CancellationToken,
+	um?: HFModelItem
 ): Promise<number> {
+	const tokenizer = resolveTokenizer(um, model);
 	if (typeof text === "string") {
-		// Estimate tokens directly for plain text
-		return estimateTextTokens(text);
+		return countTextTokens(text, tokenizer);
 	} else {
 		// For complex messages, calculate tokens for each part separately
 		let totalTokens = 0;
 
 		for (const part of text.content) {
 			if (part instanceof vscode.LanguageModelTextPart) {
-				// Estimate tokens directly for plain text
-				totalTokens += estimateTextTokens(part.value);
+				totalTokens += await countTextTokens(part.value, tokenizer);
 			} else if (part instanceof vscode.LanguageModelDataPart) {
 				// Estimate tokens for image or data parts based on type
 				if (part.mimeType.startsWith("image/")) {
-					// Images are approximately 170 tokens
-					totalTokens += 170;
+					totalTokens += estimateImageTokens(part.data);
 				} else {
 					// For other binary data, use a more conservative estimate
 					totalTokens += Math.ceil(part.data.length / 4);
@@ -36,11 +67,11 @@ export async function prepareTokenCount(
 			} else if (part instanceof vscode.LanguageModelToolCallPart) {
 				// Tool call token calculation
 				const toolCallText = `${part.name}(${JSON.stringify(part.input)})`;
-				totalTokens += estimateTextTokens(toolCallText);
+				totalTokens += await countTextTokens(toolCallText, tokenizer);
 			} else if (part instanceof vscode.LanguageModelToolResultPart) {
 				// Tool result token calculation
 				const resultText = typeof part.content === "string" ? part.content : JSON.stringify(part.content);
-				totalTokens += estimateTextTokens(resultText);
+				totalTokens += await countTextTokens(resultText, tokenizer);
 			}
 		}
 
@@ -51,6 +82,100 @@ export async function prepareTokenCount(
 	}
 }
 
+/**
+ * Select the tokenizer of a model: the configured `tokenizer`, otherwise inferred from the family or id.
+ * @param um The model configuration, if any.
+ * @param model The model id and family as advertised to VS Code.
+ */
+export function resolveTokenizer(um: HFModelItem | undefined, model: { id: string; family?: string }): TokenizerName {
+	// Unknown names, e.g. from a newer version's settings, are inferred like an unset tokenizer
+	if (um?.tokenizer === "heuristic" || (um?.tokenizer && Object.hasOwn(TOKENIZER_ENCODINGS, um.tokenizer))) {
+		return um.tokenizer;
+	}
+	const hint = `${um?.family ?? model.family ?? ""} ${model.id}`.toLowerCase();
+	if (/gpt-4o|gpt-4\.1|gpt-5|gpt-oss|(^|[\s/])o[134]\b/.test(hint)) {
+		return "o200k";
+	}
+	if (/gpt-4|gpt-3\.5/.test(hint)) {
+		return "cl100k";
+	}
+	if (/llama/.test(hint)) {
+		return "llama3";
+	}
+	if (/qwen|qwq/.test(hint)) {
+		return "qwen";
+	}
+	if (/deepseek/.test(hint)) {
+		return "deepseek";
+	}
+	return "o200k";
+}
+
+/**
+ * Count the tokens of a text with a BPE tokenizer. Results are cached, so repeated counts of
+ * the same message are cheap. Falls back to the heuristic estimate if the tokenizer cannot be loaded.
+ * @param text The text to count.
+ * @param tokenizer The tokenizer to use.
+ */
+export async function countTextTokens(text: string, tokenizer: TokenizerName): Promise<number> {
+	if (!text) {
+		return 0;
+	}
+	if (tokenizer === "heuristic") {
+		return estimateTextTokens(text);
+	}
+
+	const key = `${tokenizer}:${createHash("sha1").update(text).digest("base64")}`;
+	const cached = tokenCountCache.get(key);
+	if (cached !== undefined) {
+		// Re-insert to mark as recently used
+		tokenCountCache.delete(key);
+		tokenCountCache.set(key, cached);
+		return cached;
+	}
+
+	const encoder = await loadEncoder(TOKENIZER_ENCODINGS[tokenizer]);
+	// Special tokens like <|endoftext|> in user text are counted as plain text
+	const count = encoder ? encoder.encode(text, [], []).length : estimateTextTokens(text);
+
+	tokenCountCache.set(key, count);
+	if (tokenCountCache.size > TOKEN_CACHE_MAX_ENTRIES) {
+		const oldest = tokenCountCache.keys().next().value;
+		if (oldest !== undefined) {
+			tokenCountCache.delete(oldest);
+		}
+	}
+	return count;
+}
+
+function loadEncoder(encoding: BpeEncoding): Promise<Tiktoken | undefined> {
+	let encoder = encoders.get(encoding);
+	if (!encoder) {
+		encoder = (async () => {
+			try {
+				const { Tiktoken } = await import("js-tiktoken/lite");
+				return new Tiktoken(await loadRanks(encoding));
+			} catch (e) {
+				logger.warn(`Failed to load ${encoding} tokenizer, using estimates`, e);
+				return undefined;
+			}
+		})();
+		encoders.set(encoding, encoder);
+	}
+	return encoder;
+}
+
+async function loadRanks(encoding: BpeEncoding): Promise<TiktokenBPE> {
+	if (encoding === "o200k_base") {
+		return (await import("js-tiktoken/ranks/o200k_base")).default;
+	}
+	if (encoding === "cl100k_base") {
+		return (await import("js-tiktoken/ranks/cl100k_base")).default;
+	}
+	const uri = vscode.Uri.joinPath(vscode.Uri.file(__dirname), "..", "assets", "tokenizers", `${encoding}.json`);
+	return JSON.parse(new TextDecoder().decode(await vscode.workspace.fs.readFile(uri))) as TiktokenBPE;
+}
+
 /** Roughly estimate tokens for VS Code chat messages (text only) */
 export function estimateMessagesTokens(msgs: readonly vscode.LanguageModelChatRequestMessage[]): number {
 	let total = 0;
@@ -74,16 +199,101 @@ export function estimateTextTokens(text: string): number {
 	return Math.ceil(chineseChars * 1.5 + englishWords + symbols * 0.5);
 }
 
-/** Rough token estimate for tool definitions by JSON size */
-export function estimateToolTokens(
-	tools: { type: string; function: { name: string; description?: string; parameters?: object } }[] | undefined
-): number {
+/**
+ * Estimate image tokens from the image dimensions with the OpenAI high detail tiling:
+ * fit into 2048x2048, scale the shortest side to 768, then 170 tokens per 512px tile plus 85.
+ * @param data The encoded image bytes.
+ */
+export function estimateImageTokens(data: Uint8Array): number {
+	const size = readImageSize(data);
+	if (!size) {
+		// Unknown format, assume a single tile
+		return 170;
+	}
+
+	let { width, height } = size;
+	const fit = Math.min(1, 2048 / Math.max(width, height));
+	width *= fit;
+	height *= fit;
+	const shortest = Math.min(width, height);
+	if (shortest > 768) {
+		width = (width * 768) / shortest;
+		height = (height * 768) / shortest;
+	}
+	const tiles = Math.ceil(width / 512) * Math.ceil(height / 512);
+	return 85 + 170 * tiles;
+}
+
+/**
+ * Read the pixel size from a PNG, JPEG, GIF or WebP header.
+ * @param data The encoded image bytes.
+ */
+function readImageSize(data: Uint8Array): { width: number; height: number } | undefined {
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	const ascii = (start: number, length: number) => String.fromCharCode(...data.subarray(start, start + length));
+
+	// PNG: width and height in the IHDR chunk
+	if (data.length >= 24 && ascii(1, 3) === "PNG") {
+		return { width: view.getUint32(16), height: view.getUint32(20) };
+	}
+
+	// GIF: logical screen size, little endian
+	if (data.length >= 10 && ascii(0, 3) === "GIF") {
+		return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+	}
+
+	// WebP: lossy, lossless or extended format
+	if (data.length >= 30 && ascii(0, 4) === "RIFF" && ascii(8, 4) === "WEBP") {
+		const chunk = ascii(12, 4);
+		if (chunk === "VP8 ") {
+			return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+		}
+		if (chunk === "VP8L") {
+			const bits = view.getUint32(21, true);
+			return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+		}
+		if (chunk === "VP8X") {
+			const width = (data[24] | (data[25] << 8) | (data[26] << 16)) + 1;
+			const height = (data[27] | (data[28] << 8) | (data[29] << 16)) + 1;
+			return { width, height };
+		}
+		return undefined;
+	}
+
+	// JPEG: walk the segments up to a start-of-frame marker
+	if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+		let offset = 2;
+		while (offset + 9 < data.length) {
+			if (data[offset] !== 0xff) {
+				return undefined;
+			}
+			const marker = data[offset + 1];
+			const length = view.getUint16(offset + 2);
+			const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+			if (isStartOfFrame) {
+				return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+			}
+			offset += 2 + length;
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Count tokens of tool definitions by tokenizing their JSON.
+ * @param tools The tool definitions sent with the request.
+ * @param tokenizer The tokenizer to use.
+ */
+export async function countToolTokens(
+	tools: { type: string; function: { name: string; description?: string; parameters?: object } }[] | undefined,
+	tokenizer: TokenizerName
+): Promise<number> {
 	if (!tools || tools.length === 0) {
 		return 0;
 	}
 	try {
-		const json = JSON.stringify(tools);
-		return Math.ceil(json.length / 4);
+		return await countTextTokens(JSON.stringify(tools), tokenizer);
 	} catch {
 		return 0;
 	}
@@ -10,83 +10,126 @@ import {
 } from "vscode";
 
 import type {
+	ApiMode,
 	HFModelItem,
-	ReasoningDetail,
-	ReasoningSummaryDetail,
-	ReasoningTextDetail,
+	OpenAIFunctionToolDef,
+	RateLimitConfig,
 	ReasoningConfig,
+	ResponsesReasoningItem,
+	StreamDecoder,
+	TokenUsage,
 } from "./types";
 
 import {
 	convertTools,
 	convertMessages,
-	tryParseJSONObject,
 	validateRequest,
 	parseModelId,
 	createRetryConfig,
+	describeModel,
 	executeWithRetry,
+	responsePartText,
+	isFallbackEligibleError,
+	isRetryableError,
+	readSSEData,
+	readStreamLines,
+	BoundedMap,
 } from "./utils";
 
+import { AnthropicStreamDecoder, prepareAnthropicHeaders, prepareAnthropicRequestBody } from "./anthropic";
+import { OpenAIStreamDecoder } from "./openai";
+import { ResponsesStreamDecoder, prepareResponsesRequestBody } from "./responses";
+import { GeminiStreamDecoder, geminiStreamEndpoint, prepareGeminiHeaders, prepareGeminiRequestBody } from "./gemini";
+import {
+	OLLAMA_WILDCARD_ID,
+	OllamaStreamDecoder,
+	getOllamaModelInfo,
+	prepareOllamaHeaders,
+	prepareOllamaRequestBody,
+} from "./ollama";
+import { createApiError } from "./apiError";
 import { prepareLanguageModelChatInformation } from "./provideModel";
-import { prepareTokenCount } from "./provideToken";
+import { countTextTokens, countToolTokens, prepareTokenCount, resolveTokenizer } from "./provideToken";
+import { RateLimiter, resolveRateLimit } from "./rateLimiter";
+import { RequestAbort } from "./transport";
+import { UsageLedger } from "./usage";
+import { computeCost, enforceBudgets } from "./budget";
+import { applyAnthropicCacheBreakpoints, applyOpenAICacheBreakpoints } from "./promptCache";
+import { guardContextWindow } from "./contextGuard";
+import { StreamRecorder, isReplayUrl } from "./recorder";
+import { ModelDiscovery } from "./discovery";
+import { applyPreset, findPreset } from "./presets";
+import { ParameterCompatibility, findUnsupportedParameter } from "./paramCompat";
+import { TextToolCallFormat, TextToolCallParser, applyTextToolProtocol, isTextToolCallFormat } from "./textTools";
+import { ToolCallChecker } from "./toolArguments";
+import { isLogEnabled, logger, redactBody, redactHeaders } from "./logger";
 
 const MAX_TOOLS_PER_REQUEST = 128;
+/** Thought signatures and reasoning items kept for replay, the oldest tool calls are forgotten first. */
+const MAX_REPLAYED_TOOL_CALLS = 1000;
+/** Follow-up requests asking the model to correct invalid tool call arguments, per response. */
+const MAX_TOOL_CALL_CORRECTIONS = 2;
+
+/**
+ * A chat request resolved for one configured model, ready to be sent.
+ */
+interface PreparedChatRequest {
+	modelId: string;
+	um: HFModelItem | undefined;
+	apiMode: ApiMode;
+	/** `owned_by`, or the host of the base URL, used for usage and budgets. */
+	provider: string;
+	baseUrl: string;
+	url: string;
+	headers: Record<string, string>;
+	body: Record<string, unknown>;
+	/** Format and tools of tool calls written into the response text, when the model uses a text format. */
+	textTools?: { format: TextToolCallFormat; tools: OpenAIFunctionToolDef[] };
+}
 
 /**
  * VS Code Chat provider backed by Hugging Face Inference Providers.
  */
 export class HuggingFaceChatModelProvider implements LanguageModelChatProvider {
-	/**
-		 * Buffer for assembling streamed tool calls by index.
-		 * UPDATED: Added thoughtSignature to the buffer structure.
-		 */
-	private _toolCallBuffers: Map<number, { id?: string; name?: string; args: string; thoughtSignature?: string }> = new Map();
-
-	/** Indices for which a tool call has been fully emitted. */
-	private _completedToolCallIndices = new Set<number>();
-
-	/** Track if we emitted any assistant text before seeing tool calls (SSE-like begin-tool-calls hint). */
-	private _hasEmittedAssistantText = false;
-
-	/** Track if we emitted the begin-tool-calls whitespace flush. */
-	private _emittedBeginToolCallsHint = false;
-
-	private _textToolActive:
-		| undefined
-		| {
-			name?: string;
-			index?: number;
-			argBuffer: string;
-			emitted?: boolean;
-		};
-	private _emittedTextToolCallKeys = new Set<string>();
-	private _emittedTextToolCallIds = new Set<string>();
-
-	// XML think block parsing state
-	private _xmlThinkActive = false;
-	private _xmlThinkDetectionAttempted = false;
-
-	// Thinking content state management
-	private _currentThinkingId: string | null = null;
-
-	/** Track last request completion time for delay calculation. */
-	private _lastRequestTime: number | null = null;
+	/** Per-provider request queue enforcing `oaicopilot.rateLimits` and `oaicopilot.delay`. */
+	private readonly _rateLimiter = new RateLimiter();
 
 	/**
 		 * Store Gemini-3-Pro thought signatures mapped by Tool Call ID.
 		 * Using a Map ensures we inject the correct signature for the correct tool call.
+		 * Shared by the OpenAI-compatible proxy path and the native "gemini" apiMode.
 		 */
-	private _geminiThoughtSignatures: Map<string, string> = new Map();
+	private _geminiThoughtSignatures: Map<string, string> = new BoundedMap(MAX_REPLAYED_TOOL_CALLS);
+
+	/**
+	 * Store Responses API reasoning items mapped by the call id of the function call they preceded.
+	 * They are replayed on later turns so the model keeps its reasoning state across tool calls.
+	 */
+	private _responsesReasoningItems = new BoundedMap<string, ResponsesReasoningItem[]>(MAX_REPLAYED_TOOL_CALLS);
 
 	/**
 	 * Create a provider using the given secret storage for the API key.
 	 * @param secrets VS Code secret storage.
+	 * @param userAgent The extension User-Agent.
+	 * @param usageLedger Ledger receiving the token usage of every completed request.
+	 * @param streamRecorder Recorder of stream transcripts, also used to replay them.
+	 * @param modelDiscovery Discovery of models from the configured endpoints.
+	 * @param parameterCompat Parameters learned to be unsupported per model, omitted from requests.
 	 */
 	constructor(
 		private readonly secrets: vscode.SecretStorage,
-		private readonly userAgent: string
+		private readonly userAgent: string,
+		private readonly usageLedger?: UsageLedger,
+		private readonly streamRecorder?: StreamRecorder,
+		private readonly modelDiscovery?: ModelDiscovery,
+		private readonly parameterCompat?: ParameterCompatibility
 	) { }
 
+	/** Fires when discovered models were refreshed, so VS Code lists the models again. */
+	get onDidChangeLanguageModelChatInformation(): vscode.Event<void> | undefined {
+		return this.modelDiscovery?.onDidChange;
+	}
+
 	async provideLanguageModelChatInformation(
 		options: { silent: boolean },
 		_token: CancellationToken
@@ -95,7 +138,8 @@ export class HuggingFaceChatModelProvider implements LanguageModelChatProvider {
 			{ silent: options.silent ?? false },
 			_token,
 			this.secrets,
-			this.userAgent
+			this.userAgent,
+			this.modelDiscovery
 		);
 	}
 
@@ -104,97 +148,289 @@ export class HuggingFaceChatModelProvider implements LanguageModelChatProvider {
 		text: string | LanguageModelChatRequestMessage,
 		_token: CancellationToken
 	): Promise<number> {
-		return prepareTokenCount(model, text, _token);
+		const userModels = this.getUserModels();
+		return prepareTokenCount(model, text, _token, this.findUserModel(userModels, model.id));
 	}
 
+	/**
+	 * Send a chat request and stream the response.
+	 * @param useFallbacks Whether the configured `fallbacks` may answer when the model fails.
+	 * Disabled by `OAICopilot: Test Model` so every probe reaches the tested model.
+	 */
 	async provideLanguageModelChatResponse(
 		model: LanguageModelChatInformation,
 		messages: readonly LanguageModelChatRequestMessage[],
 		options: ProvideLanguageModelChatResponseOptions,
 		progress: Progress<LanguageModelResponsePart2>,
-		token: CancellationToken
+		token: CancellationToken,
+		useFallbacks = true
 	): Promise<void> {
-		this._toolCallBuffers.clear();
-		this._completedToolCallIndices.clear();
-		this._hasEmittedAssistantText = false;
-		this._emittedBeginToolCallsHint = false;
-		this._textToolActive = undefined;
-		this._emittedTextToolCallKeys.clear();
-		this._emittedTextToolCallIds.clear();
-		this._xmlThinkActive = false;
-		this._xmlThinkDetectionAttempted = false;
-		this._currentThinkingId = null;
-
 		const config = vscode.workspace.getConfiguration();
 		const delayMs = config.get<number>("oaicopilot.delay", 0);
+		const rateLimits = config.get<Record<string, RateLimitConfig>>("oaicopilot.rateLimits", {});
 
-		if (delayMs > 0 && this._lastRequestTime !== null) {
-			const elapsed = Date.now() - this._lastRequestTime;
-			if (elapsed < delayMs) {
-				const remainingDelay = delayMs - elapsed;
-				await new Promise<void>((resolve) => {
-					const timeout = setTimeout(() => {
-						clearTimeout(timeout);
-						resolve();
-					}, remainingDelay);
-				});
-			}
-		}
-
-		let requestBody: Record<string, unknown> | undefined;
 		const trackingProgress: Progress<LanguageModelResponsePart2> = {
 			report: (part) => {
 				try {
 					progress.report(part);
 				} catch (e) {
-					console.error("[OAI Compatible Model Provider] Progress.report failed", {
+					logger.error("Progress.report failed", {
 						modelId: model.id,
 						error: e instanceof Error ? { name: e.name, message: e.message } : String(e),
 					});
 				}
 			},
 		};
+		let release: (() => void) | undefined;
 		try {
 			if (options.tools && options.tools.length > MAX_TOOLS_PER_REQUEST) {
 				throw new Error(`Cannot have more than ${MAX_TOOLS_PER_REQUEST} tools per request.`);
 			}
 
-			const openaiMessages = convertMessages(messages);
+			const userModels = this.getUserModels();
+			const parsedModelId = parseModelId(model.id);
+			const um = this.findUserModel(userModels, model.id);
 			validateRequest(messages);
 
-			const userModels = config.get<HFModelItem[]>("oaicopilot.models", []);
-			const parsedModelId = parseModelId(model.id);
+			// The primary model first, then its configured fallbacks in order
+			const candidates: { modelId: string; um: HFModelItem | undefined }[] = [
+				{ modelId: parsedModelId.baseId, um },
+				...(useFallbacks ? this.findFallbackModels(um, userModels) : []).map((fb) => ({ modelId: fb.id, um: fb })),
+			];
+
+			// Shrink the history before sending when it clearly exceeds the input budget
+			const toolTokens = await countToolTokens(convertTools(options).tools, resolveTokenizer(um, model));
+			const guarded = await guardContextWindow(model, messages, toolTokens, token, um);
+			const promptTokens = guarded.promptTokens;
+			if (guarded.notice) {
+				trackingProgress.report(new vscode.LanguageModelTextPart(guarded.notice));
+			}
 
-			let um: HFModelItem | undefined = userModels.find(
-				(um) =>
-					um.id === parsedModelId.baseId &&
-					((parsedModelId.configId && um.configId === parsedModelId.configId) ||
-						(!parsedModelId.configId && !um.configId))
-			);
+			for (let i = 0; i < candidates.length; i++) {
+				const candidate = candidates[i];
+				// A fallback announces itself right before its first response part
+				let reported = false;
+				const candidateProgress: Progress<LanguageModelResponsePart2> = {
+					report: (part) => {
+						if (!reported && candidate.um !== um) {
+							const answeredBy = describeModel(candidate.modelId, candidate.um);
+							const failed = describeModel(parsedModelId.baseId, um);
+							trackingProgress.report(
+								new vscode.LanguageModelTextPart(`*Answered by ${answeredBy} (fallback, ${failed} failed).*\n\n`)
+							);
+						}
+						reported = true;
+						trackingProgress.report(part);
+					},
+				};
+				try {
+					// Tool arguments are checked against the tools' own schemas, whichever API produced them.
+					// Invalid calls go back to the model with the problems as tool results, to be corrected.
+					let history: readonly LanguageModelChatRequestMessage[] = guarded.messages;
+					for (let round = 0; ; round++) {
+						const request = await this.prepareChatRequest(candidate.modelId, candidate.um, history, options);
+						if (this.usageLedger) {
+							await enforceBudgets(this.usageLedger, request.provider);
+						}
+						release?.();
+						release = undefined;
+						const limit = resolveRateLimit(candidate.um, request.baseUrl, rateLimits, delayMs);
+						release = await this._rateLimiter.acquire(limit.key, limit.limits, promptTokens, token);
+						const checker = new ToolCallChecker(options.tools, candidateProgress);
+						await this.streamCompatibleRequest(request, promptTokens, checker, token);
+						const corrections = checker.finish(round < MAX_TOOL_CALL_CORRECTIONS);
+						if (!corrections) {
+							break;
+						}
+						history = [...history, ...corrections];
+					}
+					break;
+				} catch (err) {
+					release?.();
+					release = undefined;
+					const error = err instanceof Error ? err : new Error(String(err));
+					if (
+						reported ||
+						i === candidates.length - 1 ||
+						token.isCancellationRequested ||
+						!isFallbackEligibleError(error)
+					) {
+						throw error;
+					}
+					const next = candidates[i + 1];
+					logger.warn(
+						`${describeModel(candidate.modelId, candidate.um)} failed, ` +
+							`falling back to ${describeModel(next.modelId, next.um)}`,
+						error.message
+					);
+				}
+			}
+		} catch (err) {
+			logger.error("Chat request failed", err);
+			throw err;
+		} finally {
+			release?.();
+		}
+	}
+
+	/**
+	 * The configured models, merged with the cached discovered models.
+	 */
+	private getUserModels(): HFModelItem[] {
+		const configuredModels = vscode.workspace.getConfiguration().get<HFModelItem[]>("oaicopilot.models", []);
+		return this.modelDiscovery ? this.modelDiscovery.cachedModels(configuredModels) : configuredModels;
+	}
 
-			if (!um) {
-				um = userModels.find((um) => um.id === parsedModelId.baseId);
+	/**
+	 * Find the configuration entry for a model id as advertised to VS Code ("id" or "id::configId").
+	 * @param userModels The configured models.
+	 * @param modelId The VS Code model id.
+	 */
+	private findUserModel(userModels: HFModelItem[], modelId: string): HFModelItem | undefined {
+		const parsedModelId = parseModelId(modelId);
+
+		let um: HFModelItem | undefined = userModels.find(
+			(um) =>
+				um.id === parsedModelId.baseId &&
+				((parsedModelId.configId && um.configId === parsedModelId.configId) ||
+					(!parsedModelId.configId && !um.configId))
+		);
+
+		if (!um) {
+			um = userModels.find((um) => um.id === parsedModelId.baseId);
+		}
+
+		if (!um) {
+			// Models discovered from an Ollama wildcard entry inherit its settings
+			const wildcard = userModels.find(
+				(um) => um.id === OLLAMA_WILDCARD_ID && um.apiMode === "ollama" && um.configId === parsedModelId.configId
+			);
+			if (wildcard) {
+				um = { ...wildcard, id: parsedModelId.baseId };
 			}
+		}
+
+		return um;
+	}
 
-			const provider = um?.owned_by;
-			const useGenericKey = !um?.baseUrl;
-			const modelApiKey = await this.ensureApiKey(useGenericKey, provider);
-			if (!modelApiKey) {
-				throw new Error("OAI Compatible API key not found");
+	/**
+	 * Resolve the `fallbacks` of a model to configuration entries. Each reference may be
+	 * "id::configId", a configId or an id. Unknown references are skipped.
+	 * @param um The primary model configuration.
+	 * @param userModels The configured models.
+	 */
+	private findFallbackModels(um: HFModelItem | undefined, userModels: HFModelItem[]): HFModelItem[] {
+		const result: HFModelItem[] = [];
+		for (const ref of um?.fallbacks ?? []) {
+			const fallback =
+				userModels.find((m) => m.configId && `${m.id}::${m.configId}` === ref) ??
+				userModels.find((m) => m.configId === ref) ??
+				userModels.find((m) => m.id === ref && !m.configId) ??
+				userModels.find((m) => m.id === ref);
+			if (!fallback) {
+				logger.warn(`Fallback model "${ref}" not found in oaicopilot.models`);
+				continue;
+			}
+			if (fallback !== um && !result.includes(fallback)) {
+				result.push(fallback);
 			}
+		}
+		return result;
+	}
+
+	/**
+	 * Resolve the API key, endpoint, headers and body for sending a chat request to one model.
+	 * @param modelId The model id sent to the API.
+	 * @param um The model configuration, if any.
+	 * @param messages The VS Code chat messages.
+	 * @param options Request options containing tools and model options.
+	 */
+	private async prepareChatRequest(
+		modelId: string,
+		um: HFModelItem | undefined,
+		messages: readonly LanguageModelChatRequestMessage[],
+		options: ProvideLanguageModelChatResponseOptions
+	): Promise<PreparedChatRequest> {
+		const config = vscode.workspace.getConfiguration();
+		// The preset fills in what the entry leaves unset
+		const preset = findPreset(um);
+		um = applyPreset(um);
+		const apiMode = um?.apiMode ?? "openai";
+
+		const provider = um?.owned_by;
+		const useGenericKey = !um?.baseUrl;
+		// Local servers and recorded transcripts need no key, so never prompt for one
+		const modelApiKey =
+			apiMode === "ollama" || isReplayUrl(um?.baseUrl) || preset?.auth === "none"
+				? ((await this.getStoredApiKey(provider)) ?? "")
+				: await this.ensureApiKey(useGenericKey, provider);
+		if (modelApiKey === undefined) {
+			throw new Error("OAI Compatible API key not found");
+		}
 
+		let requestBody: Record<string, unknown>;
+		let endpoint: string;
+		let requestHeaders: Record<string, string>;
+		let textTools: PreparedChatRequest["textTools"];
+		if (apiMode === "anthropic") {
+			requestBody = prepareAnthropicRequestBody(modelId, messages, um, options);
+			if (um?.promptCaching) {
+				applyAnthropicCacheBreakpoints(requestBody);
+			}
+			endpoint = "/messages";
+			requestHeaders = prepareAnthropicHeaders(modelApiKey, this.userAgent, um);
+		} else if (apiMode === "responses") {
+			requestBody = prepareResponsesRequestBody(
+				modelId,
+				convertMessages(messages),
+				um,
+				options,
+				this._responsesReasoningItems
+			);
+			endpoint = "/responses";
+			requestHeaders = this.prepareBearerHeaders(modelApiKey, um);
+		} else if (apiMode === "gemini") {
+			requestBody = prepareGeminiRequestBody(messages, um, options, this._geminiThoughtSignatures);
+			endpoint = geminiStreamEndpoint(modelId);
+			requestHeaders = prepareGeminiHeaders(modelApiKey, this.userAgent, um);
+		} else if (apiMode === "ollama") {
+			requestHeaders = prepareOllamaHeaders(modelApiKey, this.userAgent, um);
+			// The context length listed from /api/show has to be requested as num_ctx
+			const ollamaBaseUrl = um?.baseUrl || config.get<string>("oaicopilot.baseUrl", "");
+			const info =
+				um?.context_length === undefined && !isReplayUrl(ollamaBaseUrl)
+					? await getOllamaModelInfo(ollamaBaseUrl, modelId, requestHeaders).catch((err) => {
+							logger.warn("Failed to read Ollama model info", err);
+							return undefined;
+						})
+					: undefined;
+			requestBody = prepareOllamaRequestBody(modelId, convertMessages(messages), um, options, info?.context_length);
+			endpoint = "/api/chat";
+		} else {
+			let openaiMessages = convertMessages(messages);
+			// Models without native tool calling get the tools in the system prompt and write calls as text
+			if (isTextToolCallFormat(um?.toolCallFormat)) {
+				const toolConfig = convertTools(options);
+				const requiredTool =
+					typeof toolConfig.tool_choice === "object" ? toolConfig.tool_choice.function.name : undefined;
+				openaiMessages = applyTextToolProtocol(openaiMessages, um.toolCallFormat, toolConfig.tools, requiredTool);
+				textTools = { format: um.toolCallFormat, tools: toolConfig.tools ?? [] };
+			}
 			requestBody = {
-				model: parsedModelId.baseId,
+				model: modelId,
 				messages: openaiMessages,
 				stream: true,
 				stream_options: { include_usage: true },
 			};
 			requestBody = this.prepareRequestBody(requestBody, um, options);
+			if (um?.promptCaching) {
+				applyOpenAICacheBreakpoints(requestBody);
+			}
 
 			// ---------------------------------------------------------
 			// IMPROVED GEMINI-3-PRO THOUGHT SIGNATURE INJECTION
 			// ---------------------------------------------------------
-			if (parsedModelId.baseId.includes('gemini-3') || um?.family?.includes('gemini-3') || um?.id.includes('gemini-3')) {
+			if (modelId.includes('gemini-3') || um?.family?.includes('gemini-3') || um?.id.includes('gemini-3')) {
 				for (const msg of openaiMessages) {
 					// Cari message dari assistant yang memiliki tool_calls
 					if (msg.role === "assistant" && Array.isArray(msg.tool_calls) && msg.tool_calls.length > 0) {
@@ -220,7 +456,7 @@ export class HuggingFaceChatModelProvider implements LanguageModelChatProvider {
 								}
 								(tc as any).extra_content.google.thought_signature = capturedSig;
 
-								console.log(`[Gemini-3-Pro] Injected signature for ${tc.id} into provider_specific_fields`);
+								logger.debug(`[Gemini-3-Pro] Injected signature for ${tc.id} into provider_specific_fields`);
 							}
 						}
 					}
@@ -229,61 +465,263 @@ export class HuggingFaceChatModelProvider implements LanguageModelChatProvider {
 
 			// ---------------------------------------------------------
 
-			if (Array.isArray(requestBody.messages)) {
-				const filteredMessages = requestBody.messages.filter(
-					(msg: any) => msg.role === "assistant" || msg.role === "model"
-				);
-				const logBody = { ...requestBody, messages: filteredMessages };
-				console.log("[OAI Compatible Model Provider] RequestBody assistant debug:", JSON.stringify(logBody));
-			}
+			endpoint = "/chat/completions";
+			requestHeaders = this.prepareBearerHeaders(modelApiKey, um);
+		}
 
-			const BASE_URL = um?.baseUrl || config.get<string>("oaicopilot.baseUrl", "");
-			if (!BASE_URL || !BASE_URL.startsWith("http")) {
-				throw new Error(`Invalid base URL configuration.`);
-			}
+		const BASE_URL = um?.baseUrl || config.get<string>("oaicopilot.baseUrl", "");
+		if (!BASE_URL || !(BASE_URL.startsWith("http") || isReplayUrl(BASE_URL))) {
+			throw new Error(`Invalid base URL configuration.`);
+		}
 
-			const retryConfig = createRetryConfig();
+		const requestProvider = um?.owned_by || new URL(BASE_URL).host;
+		// Parameters the model rejected before are omitted up front
+		for (const param of this.parameterCompat?.unsupported(requestProvider, modelId) ?? []) {
+			delete requestBody[param];
+		}
 
-			const defaultHeaders: Record<string, string> = {
-				Authorization: `Bearer ${modelApiKey}`,
-				"Content-Type": "application/json",
-				"User-Agent": this.userAgent,
-			};
+		return {
+			modelId,
+			um,
+			apiMode,
+			provider: requestProvider,
+			baseUrl: BASE_URL,
+			url: isReplayUrl(BASE_URL) ? BASE_URL : `${BASE_URL.replace(/\/+$/, "")}${endpoint}`,
+			headers: requestHeaders,
+			body: requestBody,
+			textTools,
+		};
+	}
 
-			const requestHeaders = um?.headers ? { ...defaultHeaders, ...um.headers } : defaultHeaders;
+	/**
+	 * Stream a prepared chat request, retrying once without a parameter the provider rejected as
+	 * unsupported. The parameter is remembered so later requests to the model omit it up front.
+	 * @param request The prepared request.
+	 * @param promptTokens Estimated prompt tokens, used when the stream reports no usage.
+	 * @param progress Progress reporter for response parts.
+	 * @param token Cancellation token.
+	 */
+	private async streamCompatibleRequest(
+		request: PreparedChatRequest,
+		promptTokens: number,
+		progress: Progress<LanguageModelResponsePart2>,
+		token: CancellationToken
+	): Promise<void> {
+		try {
+			await this.streamChatRequest(request, promptTokens, progress, token);
+		} catch (err) {
+			// A rejected request reported no response parts, so it can be sent again
+			const param = findUnsupportedParameter(err, request.body);
+			if (!param || token.isCancellationRequested) {
+				throw err;
+			}
+			logger.warn(`${describeModel(request.modelId, request.um)} rejected "${param}", retrying without it`);
+			await this.parameterCompat?.learn(request.provider, request.modelId, param);
+			const body = { ...request.body };
+			delete body[param];
+			await this.streamChatRequest({ ...request, body }, promptTokens, progress, token);
+		}
+	}
 
-			const response = await executeWithRetry(
-				async () => {
-					const res = await fetch(`${BASE_URL.replace(/\/+$/, "")}/chat/completions`, {
+	/**
+	 * Send a prepared chat request and stream the response into progress. Failures before the first
+	 * response part (HTTP errors, network errors and timeouts) are retried per `oaicopilot.retry`.
+	 * Non-ok responses are thrown as `ApiError`.
+	 * @param request The prepared request.
+	 * @param promptTokens Estimated prompt tokens, used when the stream reports no usage.
+	 * @param progress Progress reporter for response parts.
+	 * @param token Cancellation token.
+	 */
+	private async streamChatRequest(
+		request: PreparedChatRequest,
+		promptTokens: number,
+		progress: Progress<LanguageModelResponsePart2>,
+		token: CancellationToken
+	): Promise<void> {
+		if (isReplayUrl(request.baseUrl)) {
+			if (!this.streamRecorder) {
+				throw new Error("Stream replay is not available");
+			}
+			const transcript = await this.streamRecorder.readTranscript(request.baseUrl);
+			await this.decodeStream(transcript.apiMode, transcript.body, progress, token, () => {}, request.textTools);
+			return;
+		}
+
+		const retryConfig = createRetryConfig();
+		let reported = false;
+		let outputText = "";
+
+		await executeWithRetry(
+			async () => {
+				const abort = new RequestAbort(token, request.um?.timeouts);
+				const recording = this.streamRecorder?.start(request.modelId, request.apiMode, request.url, request.body);
+				const startedAt = Date.now();
+				let firstPartMs: number | undefined;
+				const watchedProgress: Progress<LanguageModelResponsePart2> = {
+					report: (part) => {
+						firstPartMs ??= Date.now() - startedAt;
+						reported = true;
+						abort.clearTimer("first_token");
+						outputText += responsePartText(part);
+						progress.report(part);
+					},
+				};
+
+				try {
+					if (isLogEnabled("debug")) {
+						logger.debug(
+							`POST ${request.url}`,
+							redactHeaders(request.headers, request.um?.headers),
+							redactBody(request.body)
+						);
+					}
+					abort.startTimer("connect");
+					const res = await fetch(request.url, {
 						method: "POST",
-						headers: requestHeaders,
-						body: JSON.stringify(requestBody),
+						headers: request.headers,
+						body: JSON.stringify(request.body),
+						signal: abort.signal,
 					});
+					abort.clearTimer("connect");
+					logger.debug(`${res.status} ${res.statusText} from ${request.url} after ${Date.now() - startedAt}ms`);
+					recording?.response(res.status, res.statusText);
 
 					if (!res.ok) {
-						const errorText = await res.text();
-						console.error("[OAI Compatible Model Provider] API error", errorText);
-						throw new Error(
-							`API error: [${res.status}] ${res.statusText}${errorText ? `\n${errorText}` : ""}`
-						);
+						const apiError = await createApiError(res, request.provider);
+						logger.error("API error", apiError.status, apiError.bodyText);
+						throw apiError;
+					}
+					if (!res.body) {
+						throw new Error("No response body from API");
 					}
 
-					return res;
-				},
-				retryConfig,
-				token
+					abort.startTimer("first_token");
+					const body = recording ? recording.tap(res.body) : res.body;
+					const usage = await this.decodeStream(
+						request.apiMode,
+						body,
+						watchedProgress,
+						token,
+						() => abort.startTimer("idle"),
+						request.textTools
+					);
+					logger.debug(
+						`Stream of ${request.modelId} finished after ${Date.now() - startedAt}ms ` +
+							`(first part after ${firstPartMs ?? "-"}ms)`
+					);
+					await this.recordUsage(request, usage ?? (await this.estimateUsage(request, promptTokens, outputText)));
+				} catch (err) {
+					const error = abort.resolveError(err);
+					recording?.error(error);
+					throw error;
+				} finally {
+					abort.dispose();
+					await recording?.save();
+				}
+			},
+			retryConfig,
+			token,
+			// Parts already shown in the chat cannot be taken back
+			(error) => !reported && isRetryableError(error)
+		);
+	}
+
+	/**
+	 * Estimate the usage of a response whose stream reported none.
+	 * @param request The prepared request.
+	 * @param promptTokens Estimated prompt tokens.
+	 * @param outputText The text of all reported response parts.
+	 */
+	private async estimateUsage(
+		request: PreparedChatRequest,
+		promptTokens: number,
+		outputText: string
+	): Promise<TokenUsage> {
+		const tokenizer = resolveTokenizer(request.um, { id: request.modelId });
+		return { promptTokens, completionTokens: await countTextTokens(outputText, tokenizer) };
+	}
+
+	/**
+	 * Record the usage and cost of a completed request in the usage ledger.
+	 * @param request The prepared request.
+	 * @param usage The reported or estimated usage.
+	 */
+	private async recordUsage(request: PreparedChatRequest, usage: TokenUsage): Promise<void> {
+		const cost = computeCost(usage, request.um?.pricing);
+		logger.info(
+			`Usage for ${request.modelId}: ${usage.promptTokens} prompt ` +
+				`(${usage.cachedTokens ?? 0} cached), ${usage.completionTokens} completion tokens` +
+				(cost !== undefined ? `, $${cost.toFixed(6)}` : "")
+		);
+		try {
+			await this.usageLedger?.record(request.modelId, request.provider, usage, cost);
+		} catch (e) {
+			logger.error("Failed to record usage", e);
+		}
+	}
+
+	/**
+	 * Decode a streamed response body with the decoder of the API mode.
+	 * @param apiMode The API mode of the request.
+	 * @param responseBody The streamed response body.
+	 * @param progress Progress reporter for response parts.
+	 * @param token Cancellation token.
+	 * @param onChunk Callback invoked whenever a chunk arrives.
+	 * @param textTools Format and tools of tool calls written into the response text, if any.
+	 * @returns The token usage reported in the stream, if any.
+	 */
+	private async decodeStream(
+		apiMode: ApiMode,
+		responseBody: ReadableStream<Uint8Array>,
+		progress: Progress<LanguageModelResponsePart2>,
+		token: CancellationToken,
+		onChunk: () => void,
+		textTools?: PreparedChatRequest["textTools"]
+	): Promise<TokenUsage | undefined> {
+		if (apiMode === "openai") {
+			const decoder = new OpenAIStreamDecoder(
+				progress,
+				this._geminiThoughtSignatures,
+				textTools && new TextToolCallParser(textTools.format, textTools.tools)
 			);
+			await readSSEData(
+				responseBody,
+				token,
+				async (data) => {
+					if (data === "[DONE]") {
+						decoder.finish();
+						return;
+					}
 
-			if (!response.body) {
-				throw new Error("No response body from API");
-			}
-			await this.processStreamingResponse(response.body, trackingProgress, token);
-		} catch (err) {
-			console.error("[OAI Compatible Model Provider] Chat request failed", err);
-			throw err;
-		} finally {
-			this._lastRequestTime = Date.now();
+					try {
+						decoder.processEvent(JSON.parse(data));
+					} catch {
+						// ignore malformed
+					}
+				},
+				onChunk
+			);
+			return decoder.usage;
 		}
+
+		const decoder = this.createStreamDecoder(apiMode, progress);
+		// Ollama streams newline-delimited JSON, the other APIs use server-sent events
+		const readStream = apiMode === "ollama" ? readStreamLines : readSSEData;
+		await readStream(
+			responseBody,
+			token,
+			async (data) => {
+				let event: Record<string, unknown>;
+				try {
+					event = JSON.parse(data);
+				} catch {
+					return; // ignore malformed
+				}
+				decoder.processEvent(event);
+			},
+			onChunk
+		);
+		return decoder.usage;
 	}
 
 	private prepareRequestBody(
@@ -343,9 +781,12 @@ export class HuggingFaceChatModelProvider implements LanguageModelChatProvider {
 			}
 		}
 
-		const toolConfig = convertTools(options);
-		if (toolConfig.tools) rb.tools = toolConfig.tools;
-		if (toolConfig.tool_choice) rb.tool_choice = toolConfig.tool_choice;
+		// Text tool call formats describe the tools in the system prompt instead
+		if (!isTextToolCallFormat(um?.toolCallFormat)) {
+			const toolConfig = convertTools(options);
+			if (toolConfig.tools) rb.tools = toolConfig.tools;
+			if (toolConfig.tool_choice) rb.tool_choice = toolConfig.tool_choice;
+		}
 
 		if (um?.top_k !== undefined) rb.top_k = um.top_k;
 		if (um?.min_p !== undefined) rb.min_p = um.min_p;
@@ -362,6 +803,45 @@ export class HuggingFaceChatModelProvider implements LanguageModelChatProvider {
 		return rb;
 	}
 
+	private createStreamDecoder(
+		apiMode: Exclude<ApiMode, "openai">,
+		progress: Progress<LanguageModelResponsePart2>
+	): StreamDecoder {
+		switch (apiMode) {
+			case "anthropic":
+				return new AnthropicStreamDecoder(progress);
+			case "responses":
+				return new ResponsesStreamDecoder(progress, this._responsesReasoningItems);
+			case "gemini":
+				return new GeminiStreamDecoder(progress, this._geminiThoughtSignatures);
+			case "ollama":
+				return new OllamaStreamDecoder(progress);
+		}
+	}
+
+	private prepareBearerHeaders(apiKey: string, um: HFModelItem | undefined): Record<string, string> {
+		const defaultHeaders: Record<string, string> = {
+			Authorization: `Bearer ${apiKey}`,
+			"Content-Type": "application/json",
+			"User-Agent": this.userAgent,
+		};
+		// Local servers without a stored key get no Authorization header
+		if (!apiKey) {
+			delete defaultHeaders.Authorization;
+		}
+		return um?.headers ? { ...defaultHeaders, ...um.headers } : defaultHeaders;
+	}
+
+	private async getStoredApiKey(provider?: string): Promise<string | undefined> {
+		if (provider && provider.trim() !== "") {
+			const apiKey = await this.secrets.get(`oaicopilot.apiKey.${provider.toLowerCase()}`);
+			if (apiKey) {
+				return apiKey;
+			}
+		}
+		return this.secrets.get("oaicopilot.apiKey");
+	}
+
 	private async ensureApiKey(useGenericKey: boolean, provider?: string): Promise<string | undefined> {
 		let apiKey: string | undefined;
 		if (provider && provider.trim() !== "") {
@@ -402,353 +882,6 @@ export class HuggingFaceChatModelProvider implements LanguageModelChatProvider {
 		return apiKey;
 	}
 
-	private async processStreamingResponse(
-		responseBody: ReadableStream<Uint8Array>,
-		progress: Progress<LanguageModelResponsePart2>,
-		token: CancellationToken
-	): Promise<void> {
-		const reader = responseBody.getReader();
-		const decoder = new TextDecoder();
-		let buffer = "";
-
-		try {
-			while (!token.isCancellationRequested) {
-				const { done, value } = await reader.read();
-				if (done) break;
-
-				buffer += decoder.decode(value, { stream: true });
-				const lines = buffer.split("\n");
-				buffer = lines.pop() || "";
-
-				for (const line of lines) {
-					if (!line.startsWith("data:")) continue;
-					const data = line.slice(5).trim();
-					if (data === "[DONE]") {
-						await this.flushToolCallBuffers(progress, false);
-						await this.flushActiveTextToolCall(progress);
-						continue;
-					}
-
-					try {
-						const parsed = JSON.parse(data);
-						await this.processDelta(parsed, progress);
-					} catch {
-						// ignore malformed
-					}
-				}
-			}
-		} finally {
-			reader.releaseLock();
-			this._toolCallBuffers.clear();
-			this._completedToolCallIndices.clear();
-			this._hasEmittedAssistantText = false;
-			this._emittedBeginToolCallsHint = false;
-			this._textToolActive = undefined;
-			this._emittedTextToolCallKeys.clear();
-			this._xmlThinkActive = false;
-			this._xmlThinkDetectionAttempted = false;
-			this._currentThinkingId = null;
-		}
-	}
-
-	private generateThinkingId(): string {
-		return `thinking_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-	}
-
-	private async processDelta(
-		delta: Record<string, unknown>,
-		progress: Progress<LanguageModelResponsePart2>
-	): Promise<boolean> {
-		let emitted = false;
-		const choice = (delta.choices as Record<string, unknown>[] | undefined)?.[0];
-		if (!choice) return false;
-
-		const deltaObj = choice.delta as Record<string, unknown> | undefined;
-
-		// Process thinking content
-		try {
-			let maybeThinking =
-				(choice as Record<string, unknown> | undefined)?.thinking ??
-				(deltaObj as Record<string, unknown> | undefined)?.thinking ??
-				(deltaObj as Record<string, unknown> | undefined)?.reasoning_content;
-
-			const maybeReasoningDetails =
-				(deltaObj as Record<string, unknown>)?.reasoning_details ??
-				(choice as Record<string, unknown>)?.reasoning_details;
-
-			if (maybeReasoningDetails && Array.isArray(maybeReasoningDetails) && maybeReasoningDetails.length > 0) {
-				const details: Array<ReasoningDetail> = maybeReasoningDetails as Array<ReasoningDetail>;
-				const sortedDetails = details.sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
-
-				for (const detail of sortedDetails) {
-					let extractedText = "";
-					if (detail.type === "reasoning.summary") {
-						extractedText = (detail as ReasoningSummaryDetail).summary;
-					} else if (detail.type === "reasoning.text") {
-						extractedText = (detail as ReasoningTextDetail).text;
-					} else if (detail.type === "reasoning.encrypted") {
-						extractedText = "[REDACTED]";
-					} else {
-						extractedText = JSON.stringify(detail);
-					}
-
-					if (extractedText) {
-						if (!this._currentThinkingId) this._currentThinkingId = this.generateThinkingId();
-						const metadata = { format: detail.format, type: detail.type, index: detail.index };
-						progress.report(new vscode.LanguageModelThinkingPart(extractedText, this._currentThinkingId, metadata));
-						emitted = true;
-					}
-				}
-				maybeThinking = null;
-			}
-
-			if (maybeThinking !== undefined && maybeThinking !== null) {
-				let text = "";
-				let metadata: Record<string, unknown> | undefined;
-				if (maybeThinking && typeof maybeThinking === "object") {
-					const mt = maybeThinking as Record<string, unknown>;
-					text = typeof mt["text"] === "string" ? (mt["text"] as string) : JSON.stringify(mt);
-					metadata = mt["metadata"] ? (mt["metadata"] as Record<string, unknown>) : undefined;
-				} else if (typeof maybeThinking === "string") {
-					text = maybeThinking;
-				}
-				if (text) {
-					if (!this._currentThinkingId) this._currentThinkingId = this.generateThinkingId();
-					progress.report(new vscode.LanguageModelThinkingPart(text, this._currentThinkingId, metadata));
-					emitted = true;
-				}
-			}
-		} catch (e) {
-			console.warn("[OAI Compatible Model Provider] Failed to process thinking:", e);
-		}
-
-		// Process Text Content
-		if (deltaObj?.content) {
-			const content = String(deltaObj.content);
-			const xmlRes = this.processXmlThinkBlocks(content, progress);
-			if (xmlRes.emittedAny) {
-				emitted = true;
-			} else {
-				const hasVisibleContent = content.trim().length > 0;
-				if (hasVisibleContent && this._currentThinkingId) {
-					try {
-						progress.report(new vscode.LanguageModelThinkingPart("", this._currentThinkingId));
-					} catch (e) { } finally {
-						this._currentThinkingId = null;
-					}
-				}
-				const res = this.processTextContent(content, progress);
-				if (res.emittedText) this._hasEmittedAssistantText = true;
-				if (res.emittedAny) emitted = true;
-			}
-		}
-
-		// Process Tool Calls
-		if (deltaObj?.tool_calls) {
-			const toolCalls = deltaObj.tool_calls as Array<Record<string, unknown>>;
-
-			if (!this._emittedBeginToolCallsHint && this._hasEmittedAssistantText && toolCalls.length > 0) {
-				progress.report(new vscode.LanguageModelTextPart(" "));
-				this._emittedBeginToolCallsHint = true;
-			}
-
-			for (const tc of toolCalls) {
-				const idx = (tc.index as number) ?? 0;
-				if (this._completedToolCallIndices.has(idx)) continue;
-
-				const buf = this._toolCallBuffers.get(idx) ?? { args: "" };
-
-				if (tc.id && typeof tc.id === "string") buf.id = tc.id as string;
-				const func = tc.function as Record<string, unknown> | undefined;
-				if (func?.name && typeof func.name === "string") buf.name = func.name as string;
-				if (typeof func?.arguments === "string") buf.args += func.arguments as string;
-
-				// ---------------------------------------------------------
-				// CAPTURE THOUGHT SIGNATURE from stream
-				// ---------------------------------------------------------
-				const providerFields = tc.provider_specific_fields as Record<string, unknown> | undefined;
-				if (providerFields && typeof providerFields.thought_signature === "string") {
-					buf.thoughtSignature = providerFields.thought_signature;
-					// Also save immediately if we have ID, in case it's split
-					if (buf.id) {
-						this._geminiThoughtSignatures.set(buf.id, buf.thoughtSignature);
-					}
-				}
-				// ---------------------------------------------------------
-
-				this._toolCallBuffers.set(idx, buf);
-				await this.tryEmitBufferedToolCall(idx, progress);
-			}
-		}
-
-		const finish = (choice.finish_reason as string | undefined) ?? undefined;
-		if (finish === "tool_calls" || finish === "stop") {
-			await this.flushToolCallBuffers(progress, true);
-		}
-		return emitted;
-	}
-
-	private processTextContent(
-		input: string,
-		progress: Progress<LanguageModelResponsePart2>
-	): { emittedText: boolean; emittedAny: boolean } {
-		let emittedText = false;
-		let emittedAny = false;
-		const textToEmit = input;
-		if (textToEmit && textToEmit.length > 0) {
-			progress.report(new vscode.LanguageModelTextPart(textToEmit));
-			emittedText = true;
-			emittedAny = true;
-		}
-		return { emittedText, emittedAny };
-	}
-
-	private emitTextToolCallIfValid(
-		progress: Progress<LanguageModelResponsePart2>,
-		call: { name?: string; index?: number; argBuffer: string; emitted?: boolean },
-		argText: string
-	): boolean {
-		const name = call.name ?? "unknown_tool";
-		const parsed = tryParseJSONObject(argText);
-		if (!parsed.ok) return false;
-
-		const canonical = JSON.stringify(parsed.value);
-		const key = `${name}:${canonical}`;
-		if (typeof call.index === "number") {
-			const idKey = `${name}:${call.index}`;
-			if (this._emittedTextToolCallIds.has(idKey)) return false;
-			this._emittedTextToolCallIds.add(idKey);
-		} else if (this._emittedTextToolCallKeys.has(key)) {
-			return false;
-		}
-		this._emittedTextToolCallKeys.add(key);
-		const id = `tct_${Math.random().toString(36).slice(2, 10)}`;
-		progress.report(new vscode.LanguageModelToolCallPart(id, name, parsed.value));
-		return true;
-	}
-
-	private async flushActiveTextToolCall(progress: Progress<LanguageModelResponsePart2>): Promise<void> {
-		if (!this._textToolActive) return;
-		const argText = this._textToolActive.argBuffer;
-		const parsed = tryParseJSONObject(argText);
-		if (!parsed.ok) return;
-		this.emitTextToolCallIfValid(progress, this._textToolActive, argText);
-		this._textToolActive = undefined;
-	}
-
-	private async tryEmitBufferedToolCall(index: number, progress: Progress<LanguageModelResponsePart2>): Promise<void> {
-		const buf = this._toolCallBuffers.get(index);
-		if (!buf || !buf.name) return;
-
-		const canParse = tryParseJSONObject(buf.args);
-		if (!canParse.ok) return;
-
-		const id = buf.id ?? `call_${Math.random().toString(36).slice(2, 10)}`;
-
-		// Save signature permanently if present in buffer (and not already saved)
-		if (buf.thoughtSignature) {
-			this._geminiThoughtSignatures.set(id, buf.thoughtSignature);
-		}
-
-		const parameters = canParse.value;
-		try {
-			const canonical = JSON.stringify(parameters);
-			this._emittedTextToolCallKeys.add(`${buf.name}:${canonical}`);
-		} catch { }
-
-		progress.report(new vscode.LanguageModelToolCallPart(id, buf.name, parameters));
-		this._toolCallBuffers.delete(index);
-		this._completedToolCallIndices.add(index);
-	}
-
-	private async flushToolCallBuffers(
-		progress: Progress<LanguageModelResponsePart2>,
-		throwOnInvalid: boolean
-	): Promise<void> {
-		if (this._toolCallBuffers.size === 0) return;
-
-		for (const [idx, buf] of Array.from(this._toolCallBuffers.entries())) {
-			const parsed = tryParseJSONObject(buf.args);
-			if (!parsed.ok) {
-				if (throwOnInvalid) {
-					console.error("[OAI Compatible Model Provider] Invalid JSON for tool call", {
-						idx,
-						snippet: (buf.args || "").slice(0, 200),
-					});
-					throw new Error("Invalid JSON for tool call");
-				}
-				continue;
-			}
-
-			const id = buf.id ?? `call_${Math.random().toString(36).slice(2, 10)}`;
-			const name = buf.name ?? "unknown_tool";
-
-			// Save signature permanently during flush
-			if (buf.thoughtSignature) {
-				this._geminiThoughtSignatures.set(id, buf.thoughtSignature);
-			}
-
-			try {
-				const canonical = JSON.stringify(parsed.value);
-				this._emittedTextToolCallKeys.add(`${name}:${canonical}`);
-			} catch { }
-
-			progress.report(new vscode.LanguageModelToolCallPart(id, name, parsed.value));
-			this._toolCallBuffers.delete(idx);
-			this._completedToolCallIndices.add(idx);
-		}
-	}
-
-	private processXmlThinkBlocks(
-		input: string,
-		progress: Progress<LanguageModelResponsePart2>
-	): { emittedAny: boolean } {
-		if (this._xmlThinkDetectionAttempted && !this._xmlThinkActive) return { emittedAny: false };
-
-		const THINK_START = "<think>";
-		const THINK_END = "</think>";
-		let data = input;
-		let emittedAny = false;
-
-		while (data.length > 0) {
-			if (!this._xmlThinkActive) {
-				const startIdx = data.indexOf(THINK_START);
-				if (startIdx === -1) {
-					this._xmlThinkDetectionAttempted = true;
-					data = "";
-					break;
-				}
-				this._xmlThinkActive = true;
-				this._currentThinkingId = this.generateThinkingId();
-				data = data.slice(startIdx + THINK_START.length);
-				continue;
-			}
-
-			const endIdx = data.indexOf(THINK_END);
-			if (endIdx === -1) {
-				const thinkContent = data.trim();
-				if (thinkContent) {
-					progress.report(new vscode.LanguageModelThinkingPart(thinkContent, this._currentThinkingId || undefined));
-					emittedAny = true;
-				}
-				data = "";
-				break;
-			}
-
-			const thinkContent = data.slice(0, endIdx);
-			if (thinkContent) {
-				progress.report(new vscode.LanguageModelThinkingPart(thinkContent, this._currentThinkingId || undefined));
-				emittedAny = true;
-			}
-
-			this._xmlThinkActive = false;
-			this._currentThinkingId = null;
-			data = data.slice(endIdx + THINK_END.length);
-		}
-
-		return { emittedAny };
-	}
-
 	getGeminiThoughtSignatures(): Map<string, string> {
 		return new Map(this._geminiThoughtSignatures);
 	}
@@ -0,0 +1,186 @@
+import * as vscode from "vscode";
+
+import type { HFModelItem, RateLimitConfig } from "./types";
+import { logger } from "./logger";
+
+const WINDOW_MS = 60_000;
+
+interface Bucket {
+	/** Start times of requests within the last minute. */
+	requests: number[];
+	/** Estimated prompt tokens of requests within the last minute. */
+	tokens: { time: number; count: number }[];
+	inFlight: number;
+	lastFinished: number | null;
+	/** Tickets of waiting requests, served in FIFO order. */
+	queue: object[];
+	/** Wake-up callbacks of waiting requests. */
+	waiters: Set<() => void>;
+}
+
+/**
+ * Resolve the rate limit bucket for a model. Entries in `oaicopilot.rateLimits` are keyed by
+ * base URL or by `owned_by`; the base URL takes precedence.
+ * @param um The model configuration, if any.
+ * @param baseUrl The base URL the request is sent to.
+ * @param rateLimits The `oaicopilot.rateLimits` setting.
+ * @param delayMs The `oaicopilot.delay` setting, used unless the matching entry sets `delay_ms`.
+ */
+export function resolveRateLimit(
+	um: HFModelItem | undefined,
+	baseUrl: string,
+	rateLimits: Record<string, RateLimitConfig>,
+	delayMs: number
+): { key: string; limits: RateLimitConfig } {
+	const normalizedUrl = baseUrl.replace(/\/+$/, "");
+	const provider = um?.owned_by?.toLowerCase();
+	for (const [key, limits] of Object.entries(rateLimits)) {
+		if (key.replace(/\/+$/, "") === normalizedUrl) {
+			return { key: normalizedUrl, limits: { ...limits, delay_ms: limits.delay_ms ?? delayMs } };
+		}
+	}
+	for (const [key, limits] of Object.entries(rateLimits)) {
+		if (provider && key.toLowerCase() === provider) {
+			return { key: provider, limits: { ...limits, delay_ms: limits.delay_ms ?? delayMs } };
+		}
+	}
+	return { key: provider || normalizedUrl, limits: { delay_ms: delayMs } };
+}
+
+/**
+ * Queues requests per provider bucket so they respect requests per minute, tokens per minute,
+ * max concurrent streams and the fixed delay between requests.
+ */
+export class RateLimiter {
+	private readonly _buckets = new Map<string, Bucket>();
+
+	/**
+	 * Wait until a request may start in the given bucket.
+	 * @param key The bucket key.
+	 * @param limits Limits of the bucket.
+	 * @param tokens Estimated prompt tokens of the request.
+	 * @param token Cancellation token, waiting stops with an error when cancelled.
+	 * @returns A function that must be called once the request (including its stream) has finished.
+	 */
+	async acquire(
+		key: string,
+		limits: RateLimitConfig,
+		tokens: number,
+		token: vscode.CancellationToken
+	): Promise<() => void> {
+		const bucket = this.getBucket(key);
+		const ticket = {};
+		bucket.queue.push(ticket);
+
+		try {
+			let logged = false;
+			for (;;) {
+				if (token.isCancellationRequested) {
+					throw new Error("Request was cancelled");
+				}
+				const waitMs = bucket.queue[0] === ticket ? this.computeWait(bucket, limits, tokens, Date.now()) : Infinity;
+				if (waitMs <= 0) {
+					break;
+				}
+				if (!logged) {
+					logger.info(`Request to ${key} queued by rate limits`);
+					logged = true;
+				}
+				await this.sleep(bucket, waitMs, token);
+			}
+		} finally {
+			bucket.queue.splice(bucket.queue.indexOf(ticket), 1);
+			this.notify(bucket);
+		}
+
+		const now = Date.now();
+		bucket.requests.push(now);
+		if (tokens > 0) {
+			bucket.tokens.push({ time: now, count: tokens });
+		}
+		bucket.inFlight++;
+
+		let released = false;
+		return () => {
+			if (released) {
+				return;
+			}
+			released = true;
+			bucket.inFlight--;
+			bucket.lastFinished = Date.now();
+			this.notify(bucket);
+		};
+	}
+
+	/**
+	 * Milliseconds until the request may start, 0 if it may start now, Infinity if it waits for a running request.
+	 */
+	private computeWait(bucket: Bucket, limits: RateLimitConfig, tokens: number, now: number): number {
+		bucket.requests = bucket.requests.filter((t) => now - t < WINDOW_MS);
+		bucket.tokens = bucket.tokens.filter((t) => now - t.time < WINDOW_MS);
+
+		if (limits.max_concurrent && bucket.inFlight >= limits.max_concurrent) {
+			return Infinity;
+		}
+
+		let waitMs = 0;
+		if (limits.delay_ms && limits.delay_ms > 0 && bucket.lastFinished !== null) {
+			waitMs = Math.max(waitMs, bucket.lastFinished + limits.delay_ms - now);
+		}
+
+		const rpm = limits.requests_per_minute;
+		if (rpm && bucket.requests.length >= rpm) {
+			// Wait for enough of the oldest requests to leave the window
+			waitMs = Math.max(waitMs, bucket.requests[bucket.requests.length - rpm] + WINDOW_MS - now);
+		}
+
+		const tpm = limits.tokens_per_minute;
+		if (tpm) {
+			let used = bucket.tokens.reduce((sum, t) => sum + t.count, 0);
+			// A request larger than the whole budget may still run alone
+			for (const entry of bucket.tokens) {
+				if (used === 0 || used + tokens <= tpm) {
+					break;
+				}
+				used -= entry.count;
+				waitMs = Math.max(waitMs, entry.time + WINDOW_MS - now);
+			}
+		}
+
+		return Math.max(0, waitMs);
+	}
+
+	private sleep(bucket: Bucket, ms: number, token: vscode.CancellationToken): Promise<void> {
+		return new Promise<void>((resolve) => {
+			let timeout: ReturnType<typeof setTimeout> | undefined;
+			const done = () => {
+				if (timeout) {
+					clearTimeout(timeout);
+				}
+				bucket.waiters.delete(done);
+				cancellationListener.dispose();
+				resolve();
+			};
+			if (Number.isFinite(ms)) {
+				timeout = setTimeout(done, ms);
+			}
+			bucket.waiters.add(done);
+			const cancellationListener = token.onCancellationRequested(done);
+		});
+	}
+
+	private notify(bucket: Bucket): void {
+		for (const wake of Array.from(bucket.waiters)) {
+			wake();
+		}
+	}
+
+	private getBucket(key: string): Bucket {
+		let bucket = this._buckets.get(key);
+		if (!bucket) {
+			bucket = { requests: [], tokens: [], inFlight: 0, lastFinished: null, queue: [], waiters: new Set() };
+			this._buckets.set(key, bucket);
+		}
+		return bucket;
+	}
+}
@@ -0,0 +1,167 @@
+import * as vscode from "vscode";
+
+import type { ApiMode } from "./types";
+import { logger } from "./logger";
+
+/** Base URL scheme that replays a recorded transcript instead of calling a provider. */
+const REPLAY_SCHEME = "replay://";
+
+/**
+ * One line of a JSONL stream transcript.
+ */
+export type TranscriptEntry =
+	| { type: "request"; time: string; modelId: string; apiMode: ApiMode; url: string; body: unknown }
+	| { type: "response"; status: number; statusText: string }
+	| { type: "line"; line: string }
+	| { type: "error"; message: string };
+
+/**
+ * Whether a base URL points to a recorded transcript.
+ * @param baseUrl The configured base URL.
+ */
+export function isReplayUrl(baseUrl: string | undefined): boolean {
+	return !!baseUrl?.startsWith(REPLAY_SCHEME);
+}
+
+/**
+ * Records request bodies and raw stream lines as JSONL transcripts in the extension storage
+ * while `oaicopilot.recordStreams` is enabled, and reads them back for `replay://` base URLs.
+ */
+export class StreamRecorder {
+	/**
+	 * @param recordingsUri Folder holding the transcripts.
+	 */
+	constructor(readonly recordingsUri: vscode.Uri) {}
+
+	/**
+	 * Start recording a request, if recording is enabled.
+	 * @param modelId The model id sent to the API.
+	 * @param apiMode The API mode of the request.
+	 * @param url The request URL.
+	 * @param body The request body.
+	 * @returns The recording, or undefined when recording is disabled.
+	 */
+	start(modelId: string, apiMode: ApiMode, url: string, body: unknown): StreamRecording | undefined {
+		if (!vscode.workspace.getConfiguration().get<boolean>("oaicopilot.recordStreams", false)) {
+			return undefined;
+		}
+		const time = new Date().toISOString();
+		const name = `${time.replace(/[:.]/g, "-")}-${modelId.replace(/[^\w.-]+/g, "_")}.jsonl`;
+		return new StreamRecording(vscode.Uri.joinPath(this.recordingsUri, name), {
+			type: "request",
+			time,
+			modelId,
+			apiMode,
+			url,
+			body,
+		});
+	}
+
+	/**
+	 * Read a transcript for replay. `replay://<file>` is resolved against the recordings folder
+	 * unless it is an absolute path.
+	 * @param replayUrl The `replay://` base URL.
+	 * @returns The API mode of the recorded request and its stream as a response body.
+	 */
+	async readTranscript(replayUrl: string): Promise<{ apiMode: ApiMode; body: ReadableStream<Uint8Array> }> {
+		const file = decodeURIComponent(replayUrl.slice(REPLAY_SCHEME.length).replace(/\/+$/, ""));
+		const uri =
+			file.startsWith("/") || /^[a-zA-Z]:[\\/]/.test(file)
+				? vscode.Uri.file(file)
+				: vscode.Uri.joinPath(this.recordingsUri, file);
+
+		let text: string;
+		try {
+			text = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+		} catch (err) {
+			throw new Error(`Cannot read stream transcript ${uri.fsPath}: ${err instanceof Error ? err.message : err}`);
+		}
+
+		const entries = text
+			.split("\n")
+			.filter((line) => line.trim())
+			.map((line) => JSON.parse(line) as TranscriptEntry);
+		const request = entries.find((e) => e.type === "request");
+		const lines = entries.flatMap((e) => (e.type === "line" ? [e.line] : []));
+		logger.info(`Replaying ${lines.length} stream lines from ${uri.fsPath}`);
+
+		const bytes = new TextEncoder().encode(lines.map((line) => `${line}\n`).join(""));
+		const body = new ReadableStream<Uint8Array>({
+			start(controller) {
+				controller.enqueue(bytes);
+				controller.close();
+			},
+		});
+		return { apiMode: request?.apiMode ?? "openai", body };
+	}
+}
+
+/**
+ * Transcript of one request attempt, written when it is saved.
+ */
+export class StreamRecording {
+	private readonly _entries: TranscriptEntry[];
+
+	constructor(
+		private readonly uri: vscode.Uri,
+		request: TranscriptEntry
+	) {
+		this._entries = [request];
+	}
+
+	/**
+	 * Note the response status.
+	 */
+	response(status: number, statusText: string): void {
+		this._entries.push({ type: "response", status, statusText });
+	}
+
+	/**
+	 * Note the error that ended the request.
+	 */
+	error(err: unknown): void {
+		this._entries.push({ type: "error", message: err instanceof Error ? err.message : String(err) });
+	}
+
+	/**
+	 * Pass a response body through, recording every raw line it carries.
+	 * @param body The streamed response body.
+	 */
+	tap(body: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+		const decoder = new TextDecoder();
+		let buffer = "";
+		return body.pipeThrough(
+			new TransformStream<Uint8Array, Uint8Array>({
+				transform: (chunk, controller) => {
+					buffer += decoder.decode(chunk, { stream: true });
+					const lines = buffer.split("\n");
+					buffer = lines.pop() ?? "";
+					for (const line of lines) {
+						this._entries.push({ type: "line", line });
+					}
+					controller.enqueue(chunk);
+				},
+				flush: () => {
+					buffer += decoder.decode();
+					if (buffer) {
+						this._entries.push({ type: "line", line: buffer });
+					}
+				},
+			})
+		);
+	}
+
+	/**
+	 * Write the transcript. Failures are logged, a recording never fails the request.
+	 */
+	async save(): Promise<void> {
+		try {
+			await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(this.uri, ".."));
+			const text = this._entries.map((entry) => JSON.stringify(entry)).join("\n") + "\n";
+			await vscode.workspace.fs.writeFile(this.uri, new TextEncoder().encode(text));
+			logger.info(`Recorded stream to ${this.uri.fsPath}`);
+		} catch (err) {
+			logger.error("Failed to save stream recording", err);
+		}
+	}
+}
@@ -0,0 +1,316 @@
+import * as vscode from "vscode";
+import { LanguageModelResponsePart2, Progress, ProvideLanguageModelChatResponseOptions } from "vscode";
+
+import type {
+	HFModelItem,
+	OpenAIChatMessage,
+	ResponsesFunctionToolDef,
+	ResponsesInputItem,
+	ResponsesReasoningItem,
+	StreamDecoder,
+	TokenUsage,
+} from "./types";
+
+import { convertTools } from "./utils";
+import { parseToolArguments } from "./toolArguments";
+import { logger } from "./logger";
+
+/**
+ * Translate OpenAI-style chat messages (the output of `convertMessages`) into Responses API input items.
+ * Reasoning items captured from earlier turns are re-inserted ahead of the function calls they produced.
+ * @param messages OpenAI-compatible messages.
+ * @param reasoningItems Reasoning items keyed by the call id of the first function call that followed them.
+ */
+export function convertMessagesToResponsesInput(
+	messages: readonly OpenAIChatMessage[],
+	reasoningItems: ReadonlyMap<string, ResponsesReasoningItem[]>
+): ResponsesInputItem[] {
+	const out: ResponsesInputItem[] = [];
+	for (const m of messages) {
+		if (m.role === "tool") {
+			out.push({
+				type: "function_call_output",
+				call_id: m.tool_call_id ?? "",
+				output: typeof m.content === "string" ? m.content : JSON.stringify(m.content ?? ""),
+			});
+			continue;
+		}
+
+		if (m.role === "assistant") {
+			const text = typeof m.content === "string" ? m.content : "";
+			if (text) {
+				out.push({ type: "message", role: "assistant", content: [{ type: "output_text", text }] });
+			}
+			for (const tc of m.tool_calls ?? []) {
+				const carried = reasoningItems.get(tc.id);
+				if (carried) {
+					out.push(...carried);
+				}
+				out.push({
+					type: "function_call",
+					call_id: tc.id,
+					name: tc.function.name,
+					arguments: tc.function.arguments,
+				});
+			}
+			continue;
+		}
+
+		if (typeof m.content === "string") {
+			out.push({ type: "message", role: m.role, content: [{ type: "input_text", text: m.content }] });
+		} else if (Array.isArray(m.content)) {
+			const content: Array<{ type: "input_text"; text: string } | { type: "input_image"; image_url: string }> = [];
+			for (const c of m.content) {
+				if (c.type === "text" && c.text) {
+					content.push({ type: "input_text", text: c.text });
+				} else if (c.type === "image_url" && c.image_url) {
+					content.push({ type: "input_image", image_url: c.image_url.url });
+				}
+			}
+			if (content.length > 0) {
+				out.push({ type: "message", role: m.role, content });
+			}
+		}
+	}
+	return out;
+}
+
+/**
+ * Build an OpenAI Responses API `/responses` request body.
+ * @param modelId The model id sent to the API.
+ * @param messages OpenAI-compatible messages from `convertMessages`.
+ * @param um The user model configuration, if any.
+ * @param options Request options containing tools and model options.
+ * @param reasoningItems Reasoning items carried over from earlier turns.
+ */
+export function prepareResponsesRequestBody(
+	modelId: string,
+	messages: readonly OpenAIChatMessage[],
+	um: HFModelItem | undefined,
+	options: ProvideLanguageModelChatResponseOptions,
+	reasoningItems: ReadonlyMap<string, ResponsesReasoningItem[]>
+): Record<string, unknown> {
+	const rb: Record<string, unknown> = {
+		model: modelId,
+		input: convertMessagesToResponsesInput(messages, reasoningItems),
+		stream: true,
+		// Stateless mode: reasoning is carried forward by the client as encrypted items
+		store: false,
+		include: ["reasoning.encrypted_content"],
+	};
+
+	// Reasoning models reject sampling parameters, only send them when configured explicitly
+	const temperature = um?.temperature ?? options.modelOptions?.temperature;
+	if (typeof temperature === "number") {
+		rb.temperature = temperature;
+	}
+	const topP = um?.top_p ?? options.modelOptions?.top_p;
+	if (typeof topP === "number") {
+		rb.top_p = topP;
+	}
+
+	const maxOutputTokens = um?.max_completion_tokens ?? um?.max_tokens;
+	if (maxOutputTokens !== undefined) {
+		rb.max_output_tokens = maxOutputTokens;
+	}
+
+	const effort = um?.reasoning_effort ?? (um?.reasoning?.enabled !== false ? um?.reasoning?.effort : undefined);
+	if (effort !== undefined || (um?.reasoning !== undefined && um.reasoning.enabled !== false)) {
+		const reasoningObj: Record<string, unknown> = { summary: "auto" };
+		if (effort && effort !== "auto") {
+			reasoningObj.effort = effort;
+		}
+		rb.reasoning = reasoningObj;
+	}
+
+	const toolConfig = convertTools(options);
+	if (toolConfig.tools) {
+		rb.tools = toolConfig.tools.map(
+			(t) =>
+				({
+					type: "function",
+					name: t.function.name,
+					description: t.function.description,
+					parameters: t.function.parameters,
+				}) satisfies ResponsesFunctionToolDef
+		);
+		if (toolConfig.tool_choice && toolConfig.tool_choice !== "auto") {
+			rb.tool_choice = { type: "function", name: toolConfig.tool_choice.function.name };
+		} else {
+			rb.tool_choice = "auto";
+		}
+	}
+
+	if (um?.extra && typeof um.extra === "object") {
+		for (const [key, value] of Object.entries(um.extra)) {
+			if (value !== undefined) {
+				rb[key] = value;
+			}
+		}
+	}
+
+	return rb;
+}
+
+/**
+ * Decodes OpenAI Responses API stream events into VS Code response parts.
+ * One decoder is created per request.
+ */
+export class ResponsesStreamDecoder implements StreamDecoder {
+	/** Function calls in flight, keyed by output item id. */
+	private readonly _functionCalls = new Map<string, { callId?: string; name?: string; args: string }>();
+
+	/** Reasoning items completed in this response that have not been attached to a function call yet. */
+	private _pendingReasoning: ResponsesReasoningItem[] = [];
+
+	private _currentThinkingId: string | null = null;
+
+	usage: TokenUsage | undefined;
+
+	/**
+	 * @param progress Progress reporter for response parts.
+	 * @param reasoningItems Store that receives reasoning items keyed by the call id they precede.
+	 */
+	constructor(
+		private readonly progress: Progress<LanguageModelResponsePart2>,
+		private readonly reasoningItems: Map<string, ResponsesReasoningItem[]>
+	) {}
+
+	/**
+	 * Handle one parsed `data:` payload from the event stream.
+	 * @param event The parsed event object.
+	 */
+	processEvent(event: Record<string, unknown>): void {
+		switch (event.type as string | undefined) {
+			case "response.output_text.delta": {
+				if (typeof event.delta === "string" && event.delta) {
+					this.endThinking();
+					this.progress.report(new vscode.LanguageModelTextPart(event.delta));
+				}
+				break;
+			}
+			case "response.reasoning_summary_text.delta":
+			case "response.reasoning_text.delta": {
+				if (typeof event.delta === "string" && event.delta) {
+					if (!this._currentThinkingId) {
+						this._currentThinkingId = this.generateThinkingId();
+					}
+					this.progress.report(new vscode.LanguageModelThinkingPart(event.delta, this._currentThinkingId));
+				}
+				break;
+			}
+			case "response.reasoning_summary_part.added": {
+				// Separate consecutive summary paragraphs
+				if (typeof event.summary_index === "number" && event.summary_index > 0 && this._currentThinkingId) {
+					this.progress.report(new vscode.LanguageModelThinkingPart("\n\n", this._currentThinkingId));
+				}
+				break;
+			}
+			case "response.output_item.added": {
+				const item = (event.item ?? {}) as Record<string, unknown>;
+				if (item.type === "function_call" && typeof item.id === "string") {
+					this._functionCalls.set(item.id, {
+						callId: item.call_id as string | undefined,
+						name: item.name as string | undefined,
+						args: typeof item.arguments === "string" ? item.arguments : "",
+					});
+				}
+				break;
+			}
+			case "response.function_call_arguments.delta": {
+				const call = typeof event.item_id === "string" ? this._functionCalls.get(event.item_id) : undefined;
+				if (call && typeof event.delta === "string") {
+					call.args += event.delta;
+				}
+				break;
+			}
+			case "response.function_call_arguments.done": {
+				const call = typeof event.item_id === "string" ? this._functionCalls.get(event.item_id) : undefined;
+				if (call && typeof event.arguments === "string") {
+					call.args = event.arguments;
+				}
+				break;
+			}
+			case "response.output_item.done": {
+				const item = (event.item ?? {}) as Record<string, unknown>;
+				if (item.type === "reasoning") {
+					this.endThinking();
+					this._pendingReasoning.push({
+						type: "reasoning",
+						id: String(item.id ?? ""),
+						summary: Array.isArray(item.summary) ? (item.summary as ResponsesReasoningItem["summary"]) : [],
+						encrypted_content: typeof item.encrypted_content === "string" ? item.encrypted_content : undefined,
+					});
+				} else if (item.type === "function_call") {
+					this.emitFunctionCall(item);
+				}
+				break;
+			}
+			case "response.completed":
+			case "response.incomplete": {
+				const response = (event.response ?? {}) as Record<string, unknown>;
+				if (event.type === "response.incomplete") {
+					// Cut off by max_output_tokens or a content filter
+					this.endThinking();
+					const details = (response.incomplete_details ?? {}) as Record<string, unknown>;
+					logger.warn(`Responses API response truncated by ${String(details.reason ?? "an unknown reason")}`, {
+						usage: response.usage,
+					});
+				}
+				const usage = response.usage as Record<string, unknown> | undefined;
+				if (usage) {
+					const inputDetails = (usage.input_tokens_details ?? {}) as Record<string, unknown>;
+					const outputDetails = (usage.output_tokens_details ?? {}) as Record<string, unknown>;
+					this.usage = {
+						promptTokens: Number(usage.input_tokens ?? 0),
+						completionTokens: Number(usage.output_tokens ?? 0),
+						reasoningTokens: outputDetails.reasoning_tokens as number | undefined,
+						cachedTokens: inputDetails.cached_tokens as number | undefined,
+					};
+				}
+				break;
+			}
+			case "response.failed":
+			case "error": {
+				const response = (event.response ?? {}) as Record<string, unknown>;
+				const error = (response.error ?? event.error ?? event) as Record<string, unknown>;
+				throw new Error(`API error: ${error.code ?? "error"}: ${error.message ?? JSON.stringify(event)}`);
+			}
+			default:
+				// response.created and other lifecycle events carry no renderable content
+				break;
+		}
+	}
+
+	private emitFunctionCall(item: Record<string, unknown>): void {
+		const itemId = typeof item.id === "string" ? item.id : "";
+		const call = this._functionCalls.get(itemId);
+		this._functionCalls.delete(itemId);
+
+		const args = typeof item.arguments === "string" ? item.arguments : (call?.args ?? "");
+		const callId =
+			(typeof item.call_id === "string" ? item.call_id : call?.callId) ??
+			`call_${Math.random().toString(36).slice(2, 10)}`;
+		const name = (typeof item.name === "string" ? item.name : call?.name) ?? "unknown_tool";
+
+		// Reasoning must be replayed right before the function call it led to
+		if (this._pendingReasoning.length > 0) {
+			this.reasoningItems.set(callId, this._pendingReasoning);
+			this._pendingReasoning = [];
+		}
+
+		this.endThinking();
+		this.progress.report(new vscode.LanguageModelToolCallPart(callId, name, parseToolArguments(args, name)));
+	}
+
+	private endThinking(): void {
+		if (this._currentThinkingId) {
+			this.progress.report(new vscode.LanguageModelThinkingPart("", this._currentThinkingId));
+			this._currentThinkingId = null;
+		}
+	}
+
+	private generateThinkingId(): string {
+		return `thinking_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+	}
+}
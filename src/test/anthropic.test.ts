@@ -0,0 +1,60 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+
+import { convertMessagesToAnthropic, prepareAnthropicRequestBody } from "../anthropic";
+
+const OPTIONS: vscode.ProvideLanguageModelChatResponseOptions = {
+	requestInitiator: "test",
+	toolMode: vscode.LanguageModelChatToolMode.Auto,
+};
+
+function assistantMessage(...parts: unknown[]): vscode.LanguageModelChatRequestMessage {
+	return { role: vscode.LanguageModelChatMessageRole.Assistant, name: undefined, content: parts };
+}
+
+suite("Anthropic requests", () => {
+	test("replays thinking streamed as several parts with the signature on the last one", () => {
+		const { messages } = convertMessagesToAnthropic([
+			assistantMessage(
+				new vscode.LanguageModelThinkingPart("Let me ", "thinking_1"),
+				new vscode.LanguageModelThinkingPart("check.", "thinking_1"),
+				new vscode.LanguageModelThinkingPart("", "thinking_1", { signature: "sig" }),
+				new vscode.LanguageModelToolCallPart("call_1", "read_file", { path: "a.ts" })
+			),
+		]);
+		assert.deepStrictEqual(messages[0].content, [
+			{ type: "thinking", thinking: "Let me check.", signature: "sig" },
+			{ type: "tool_use", id: "call_1", name: "read_file", input: { path: "a.ts" } },
+		]);
+	});
+
+	test("drops unsigned thinking", () => {
+		const { messages } = convertMessagesToAnthropic([
+			assistantMessage(
+				new vscode.LanguageModelThinkingPart("Unsigned", "thinking_1"),
+				new vscode.LanguageModelTextPart("Answer")
+			),
+		]);
+		assert.deepStrictEqual(messages[0].content, [{ type: "text", text: "Answer" }]);
+	});
+
+	test("keeps the thinking budget below max_tokens", () => {
+		const small = prepareAnthropicRequestBody(
+			"claude",
+			[],
+			{ id: "claude", owned_by: "anthropic", max_tokens: 800, enable_thinking: true },
+			OPTIONS
+		);
+		assert.strictEqual(small.max_tokens, 1824);
+		assert.deepStrictEqual(small.thinking, { type: "enabled", budget_tokens: 1024 });
+
+		const large = prepareAnthropicRequestBody(
+			"claude",
+			[],
+			{ id: "claude", owned_by: "anthropic", max_tokens: 4096, thinking: { type: "enabled", budget_tokens: 8000 } },
+			OPTIONS
+		);
+		assert.strictEqual(large.max_tokens, 4096);
+		assert.deepStrictEqual(large.thinking, { type: "enabled", budget_tokens: 4095 });
+	});
+});
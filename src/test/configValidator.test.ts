@@ -0,0 +1,71 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+
+import { validateModels } from "../configValidator";
+import type { HFModelItem } from "../types";
+
+function secretStorage(keys: Record<string, string>): vscode.SecretStorage {
+	return {
+		get: async (key: string) => keys[key],
+		store: async () => {},
+		delete: async () => {},
+		onDidChange: () => ({ dispose() {} }),
+	};
+}
+
+const SECRETS = secretStorage({ "oaicopilot.apiKey.acme": "sk-test" });
+
+async function problemsOf(models: HFModelItem[]): Promise<string[]> {
+	return (await validateModels(models, SECRETS)).map((p) => `${p.index}:${p.field ?? ""}:${p.message}`);
+}
+
+suite("validateModels", () => {
+	test("accepts a complete entry", async () => {
+		assert.deepStrictEqual(await problemsOf([{ id: "m", owned_by: "acme", baseUrl: "https://api.acme.com/v1" }]), []);
+	});
+
+	test("reports missing fields and unknown presets", async () => {
+		const problems = await problemsOf([{ preset: "nope" } as HFModelItem]);
+		assert.strictEqual(problems.length, 3);
+		assert.match(problems[0], /^0::Missing "id"/);
+		assert.match(problems[1], /^0::Missing "owned_by"/);
+		assert.match(problems[2], /^0:preset:Unknown preset "nope"/);
+	});
+
+	test("suggests a distinct configId for duplicates", async () => {
+		const problems = await validateModels(
+			[
+				{ id: "m", owned_by: "acme", baseUrl: "https://a/v1" },
+				{ id: "m", owned_by: "acme", baseUrl: "https://b/v1" },
+			],
+			SECRETS
+		);
+		assert.strictEqual(problems.length, 1);
+		assert.strictEqual(problems[0].index, 1);
+		assert.deepStrictEqual(problems[0].fixes, [{ title: 'Set configId to "acme"', field: "configId", value: "acme" }]);
+	});
+
+	test("checks max_tokens against context_length and the baseUrl scheme", async () => {
+		const problems = await validateModels(
+			[{ id: "m", owned_by: "acme", baseUrl: "api.acme.com/v1", max_tokens: 8192, context_length: 8192 }],
+			SECRETS
+		);
+		assert.deepStrictEqual(
+			problems.map((p) => [p.field, p.fixes]),
+			[
+				["max_tokens", [{ title: "Set max_tokens to 2048", field: "max_tokens", value: 2048 }]],
+				["baseUrl", [{ title: 'Use "https://api.acme.com/v1"', field: "baseUrl", value: "https://api.acme.com/v1" }]],
+			]
+		);
+	});
+
+	test("warns about missing API keys and fallbacks", async () => {
+		const problems = await problemsOf([
+			{ id: "m", owned_by: "other", baseUrl: "https://api.other.com/v1", fallbacks: ["missing"] },
+			{ id: "local", owned_by: "vllm", preset: "vllm" },
+		]);
+		assert.strictEqual(problems.length, 2);
+		assert.match(problems[0], /^0:fallbacks:Fallback model "missing"/);
+		assert.match(problems[1], /^0:owned_by:No API key stored for "other"/);
+	});
+});
@@ -0,0 +1,91 @@
+import * as assert from "assert";
+
+import { ApiError } from "../apiError";
+import { findUnsupportedParameter } from "../paramCompat";
+
+function apiError(status: number, body: unknown, code?: string): ApiError {
+	const bodyText = JSON.stringify(body);
+	return new ApiError("Request failed", status, "Bad Request", {}, "test", bodyText, body, code);
+}
+
+suite("findUnsupportedParameter", () => {
+	const body = { model: "m", messages: [], max_tokens: 100000, temperature: 0.7, reasoning_effort: "high" };
+
+	test("uses error.param of an unsupported parameter error", () => {
+		const error = apiError(
+			400,
+			{
+				error: {
+					message: "Unsupported parameter: 'max_tokens' is not supported with this model.",
+					param: "max_tokens",
+					code: "unsupported_parameter",
+				},
+			},
+			"unsupported_parameter"
+		);
+		assert.strictEqual(findUnsupportedParameter(error, body), "max_tokens");
+	});
+
+	test("accepts an unknown_parameter code without a matching message", () => {
+		const error = apiError(
+			400,
+			{ error: { message: "Invalid request.", param: "reasoning_effort", code: "unknown_parameter" } },
+			"unknown_parameter"
+		);
+		assert.strictEqual(findUnsupportedParameter(error, body), "reasoning_effort");
+	});
+
+	test("ignores error.param of an invalid value", () => {
+		const error = apiError(
+			400,
+			{
+				error: {
+					message: "max_tokens is too large: 100000. This model supports at most 16384 completion tokens.",
+					param: "max_tokens",
+					code: "invalid_value",
+				},
+			},
+			"invalid_value"
+		);
+		assert.strictEqual(findUnsupportedParameter(error, body), undefined);
+	});
+
+	test("uses the loc of a FastAPI extra field error", () => {
+		const error = apiError(422, {
+			detail: [{ type: "extra_forbidden", loc: ["body", "reasoning_effort"], msg: "Extra inputs are not permitted" }],
+		});
+		assert.strictEqual(findUnsupportedParameter(error, body), "reasoning_effort");
+	});
+
+	test("ignores the loc of a FastAPI value error", () => {
+		const error = apiError(422, {
+			detail: [
+				{ type: "less_than_equal", loc: ["body", "temperature"], msg: "Input should be less than or equal to 2" },
+			],
+		});
+		assert.strictEqual(findUnsupportedParameter(error, body), undefined);
+	});
+
+	test("skips value errors next to an unsupported field", () => {
+		const error = apiError(422, {
+			detail: [
+				{ type: "less_than_equal", loc: ["body", "temperature"], msg: "Input should be less than or equal to 2" },
+				{ type: "extra_forbidden", loc: ["body", "reasoning_effort"], msg: "Extra inputs are not permitted" },
+			],
+		});
+		assert.strictEqual(findUnsupportedParameter(error, body), "reasoning_effort");
+	});
+
+	test("finds the field named in an unsupported parameter message", () => {
+		const error = apiError(400, { message: "temperature is not supported by this model" });
+		assert.strictEqual(findUnsupportedParameter(error, body), "temperature");
+	});
+
+	test("ignores fields that were not sent and other statuses", () => {
+		const error = apiError(400, { message: "top_p is not supported by this model" });
+		assert.strictEqual(findUnsupportedParameter(error, body), undefined);
+		const serverError = apiError(500, { message: "temperature is not supported by this model" });
+		assert.strictEqual(findUnsupportedParameter(serverError, body), undefined);
+		assert.strictEqual(findUnsupportedParameter(new Error("temperature is not supported"), body), undefined);
+	});
+});
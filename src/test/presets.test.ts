@@ -0,0 +1,57 @@
+import * as assert from "assert";
+
+import { applyPreset } from "../presets";
+import type { HFModelItem } from "../types";
+
+function model(fields: Partial<HFModelItem>): HFModelItem {
+	return { id: "m", owned_by: "test", ...fields };
+}
+
+suite("applyPreset", () => {
+	test("fills unset fields from the preset and merges headers", () => {
+		const resolved = applyPreset(model({ preset: "openrouter", headers: { "X-Title": "Mine" } }));
+		assert.strictEqual(resolved?.baseUrl, "https://openrouter.ai/api/v1");
+		assert.deepStrictEqual(resolved?.headers, {
+			"HTTP-Referer": "https://github.com/JohnnyZ93/oai-compatible-copilot",
+			"X-Title": "Mine",
+		});
+		assert.strictEqual(
+			applyPreset(model({ preset: "deepseek", baseUrl: "https://proxy/v1" }))?.baseUrl,
+			"https://proxy/v1"
+		);
+	});
+
+	test("moves thinking to enable_thinking", () => {
+		const resolved = applyPreset(model({ preset: "siliconflow", thinking: { type: "enabled", budget_tokens: 2048 } }));
+		assert.strictEqual(resolved?.thinking, undefined);
+		assert.strictEqual(resolved?.enable_thinking, true);
+		assert.strictEqual(resolved?.thinking_budget, 2048);
+	});
+
+	test("moves reasoning_effort to reasoning", () => {
+		const resolved = applyPreset(model({ preset: "openrouter", reasoning_effort: "high" }));
+		assert.strictEqual(resolved?.reasoning_effort, undefined);
+		assert.deepStrictEqual(resolved?.reasoning, { effort: "high", max_tokens: undefined });
+	});
+
+	test("moves enable_thinking to thinking and reasoning_effort", () => {
+		assert.deepStrictEqual(applyPreset(model({ preset: "zai", enable_thinking: false }))?.thinking, {
+			type: "disabled",
+			budget_tokens: undefined,
+		});
+		assert.strictEqual(applyPreset(model({ preset: "groq", enable_thinking: true }))?.reasoning_effort, "medium");
+		assert.strictEqual(applyPreset(model({ preset: "groq", enable_thinking: false }))?.reasoning_effort, undefined);
+	});
+
+	test("keeps the field the provider reads when it is set", () => {
+		const resolved = applyPreset(model({ preset: "siliconflow", enable_thinking: false, reasoning_effort: "high" }));
+		assert.strictEqual(resolved?.enable_thinking, false);
+		assert.strictEqual(resolved?.reasoning_effort, "high");
+	});
+
+	test("leaves models without a preset unchanged", () => {
+		const um = model({ reasoning_effort: "high" });
+		assert.strictEqual(applyPreset(um), um);
+		assert.strictEqual(applyPreset(undefined), undefined);
+	});
+});
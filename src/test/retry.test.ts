@@ -0,0 +1,52 @@
+import * as assert from "assert";
+
+import { ApiError, parseRetryAfter } from "../apiError";
+import { computeRetryDelay } from "../utils";
+
+function rateLimitError(retryAfterMs?: number): ApiError {
+	return new ApiError("Rate limited", 429, "Too Many Requests", {}, "test", "", undefined, undefined, retryAfterMs);
+}
+
+suite("parseRetryAfter", () => {
+	test("reads retry-after-ms and Retry-After seconds", () => {
+		assert.strictEqual(parseRetryAfter({ "retry-after-ms": "250", "retry-after": "9" }), 250);
+		assert.strictEqual(parseRetryAfter({ "retry-after": "2" }), 2000);
+	});
+
+	test("reads a Retry-After date", () => {
+		const delay = parseRetryAfter({ "retry-after": new Date(Date.now() + 60_000).toUTCString() });
+		assert.ok(delay !== undefined && delay > 55_000 && delay <= 60_000, String(delay));
+	});
+
+	test("waits for the latest rate limit window to reset", () => {
+		assert.strictEqual(
+			parseRetryAfter({ "x-ratelimit-reset-requests": "1m30s", "x-ratelimit-reset-tokens": "250ms" }),
+			90_000
+		);
+	});
+
+	test("ignores missing and unreadable headers", () => {
+		assert.strictEqual(parseRetryAfter({}), undefined);
+		assert.strictEqual(parseRetryAfter({ "x-ratelimit-reset": "soon" }), undefined);
+	});
+});
+
+suite("computeRetryDelay", () => {
+	test("uses the server requested delay, capped at max_delay_ms", () => {
+		assert.strictEqual(computeRetryDelay(rateLimitError(5000), 1, { enabled: true }), 5000);
+		assert.strictEqual(computeRetryDelay(rateLimitError(120_000), 1, { enabled: true, max_delay_ms: 10_000 }), 10_000);
+	});
+
+	test("backs off exponentially with jitter", () => {
+		const config = { enabled: true, interval_ms: 1000, max_delay_ms: 5000 };
+		for (const [attempt, base] of [
+			[1, 1000],
+			[2, 2000],
+			[3, 4000],
+			[4, 5000],
+		]) {
+			const delay = computeRetryDelay(rateLimitError(), attempt, config);
+			assert.ok(delay >= base / 2 && delay <= base, `attempt ${attempt}: ${delay}`);
+		}
+	});
+});
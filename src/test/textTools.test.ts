@@ -0,0 +1,111 @@
+import * as assert from "assert";
+
+import { type TextToolCall, TextToolCallParser, applyTextToolProtocol } from "../textTools";
+import type { OpenAIFunctionToolDef } from "../types";
+
+const TOOLS: OpenAIFunctionToolDef[] = [
+	{
+		type: "function",
+		function: {
+			name: "read_file",
+			description: "Read a file",
+			parameters: {
+				type: "object",
+				properties: { path: { type: "string" }, limit: { type: "integer" } },
+			},
+		},
+	},
+];
+
+/** Feed the chunks to a parser and collect every segment, including the flushed ones. */
+function parse(parser: TextToolCallParser, chunks: string[]): (string | TextToolCall)[] {
+	return [...chunks.flatMap((chunk) => parser.push(chunk)), ...parser.flush()];
+}
+
+suite("TextToolCallParser", () => {
+	test("finds hermes calls with delimiters split across chunks", () => {
+		const segments = parse(new TextToolCallParser("hermes", TOOLS), [
+			"Let me look.<tool",
+			'_call>\n{"name": "read_file", "arguments": {"path": "a.ts"}}\n</tool_',
+			"call>Done.",
+		]);
+		assert.deepStrictEqual(segments, ["Let me look.", { name: "read_file", args: '{"path":"a.ts"}' }, "Done."]);
+	});
+
+	test("keeps text that only looks like the start of a delimiter", () => {
+		const segments = parse(new TextToolCallParser("hermes", TOOLS), ["a <to", "p> b <"]);
+		assert.strictEqual(segments.join(""), "a <top> b <");
+	});
+
+	test("reads xml parameters by their schema type", () => {
+		const segments = parse(new TextToolCallParser("xml", TOOLS), [
+			'<invoke name="read_file">\n<parameter name="path">42</parameter>\n<parameter name="limit">10</parameter>\n</invoke>',
+		]);
+		assert.deepStrictEqual(segments, [{ name: "read_file", args: '{"path":"42","limit":10}' }]);
+	});
+
+	test("keeps the arguments of malformed json-block calls for repair", () => {
+		const segments = parse(new TextToolCallParser("json-block", TOOLS), [
+			'```tool_call\n{"name": "read_file", "arguments": {"path": "a.ts",}}\n```',
+		]);
+		assert.deepStrictEqual(segments, [{ name: "read_file", args: '{"path": "a.ts",}' }]);
+	});
+
+	test("parses a call left open at the end of the stream", () => {
+		const segments = parse(new TextToolCallParser("hermes", TOOLS), [
+			'<tool_call>{"name": "read_file", "arguments": {"path": "a.ts"}}',
+		]);
+		assert.deepStrictEqual(segments, [{ name: "read_file", args: '{"path":"a.ts"}' }]);
+	});
+
+	test("passes through a call without a name as text", () => {
+		const segments = parse(new TextToolCallParser("hermes", TOOLS), ['<tool_call>{"x": 1}</tool_call>']);
+		assert.deepStrictEqual(segments, ['<tool_call>{"x": 1}</tool_call>']);
+	});
+});
+
+suite("applyTextToolProtocol", () => {
+	test("writes calls into the text and joins results into one user message", () => {
+		const messages = applyTextToolProtocol(
+			[
+				{ role: "system", content: "Be brief." },
+				{ role: "user", content: "Read a.ts and b.ts" },
+				{
+					role: "assistant",
+					content: "Reading.",
+					tool_calls: [
+						{ id: "1", type: "function", function: { name: "read_file", arguments: '{"path":"a.ts"}' } },
+						{ id: "2", type: "function", function: { name: "read_file", arguments: '{"path":"b.ts"}' } },
+					],
+				},
+				{ role: "tool", tool_call_id: "1", content: "A" },
+				{ role: "tool", tool_call_id: "2", content: "B" },
+				{ role: "user", content: "Summarize" },
+			],
+			"hermes",
+			TOOLS
+		);
+
+		assert.deepStrictEqual(
+			messages.map((m) => m.role),
+			["system", "user", "assistant", "user"]
+		);
+		assert.match(messages[0].content as string, /^Be brief\.\n\n# Tools/);
+		assert.strictEqual(
+			messages[2].content,
+			'Reading.\n\n<tool_call>\n{"name":"read_file","arguments":{"path":"a.ts"}}\n</tool_call>\n\n' +
+				'<tool_call>\n{"name":"read_file","arguments":{"path":"b.ts"}}\n</tool_call>'
+		);
+		assert.strictEqual(
+			messages[3].content,
+			"<tool_response>\nA\n</tool_response>\n\n<tool_response>\nB\n</tool_response>\n\nSummarize"
+		);
+		assert.ok(messages.every((m) => m.tool_calls === undefined));
+	});
+
+	test("adds a system prompt naming the required tool", () => {
+		const messages = applyTextToolProtocol([{ role: "user", content: "Hi" }], "xml", TOOLS, "read_file");
+		assert.strictEqual(messages[0].role, "system");
+		assert.match(messages[0].content as string, /You must call the tool "read_file" in this reply\./);
+	});
+});
@@ -0,0 +1,107 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+
+import { TOOL_ARGUMENTS_ERROR_KEY, ToolCallChecker, parseToolArguments } from "../toolArguments";
+
+const TOOLS: vscode.LanguageModelChatTool[] = [
+	{
+		name: "read_file",
+		description: "Read a file",
+		inputSchema: {
+			type: "object",
+			properties: { path: { type: "string" }, limit: { type: "integer" } },
+			required: ["path"],
+		},
+	},
+];
+
+function collect(): {
+	parts: vscode.LanguageModelResponsePart2[];
+	progress: vscode.Progress<vscode.LanguageModelResponsePart2>;
+} {
+	const parts: vscode.LanguageModelResponsePart2[] = [];
+	return { parts, progress: { report: (part) => parts.push(part) } };
+}
+
+suite("parseToolArguments", () => {
+	test("parses valid and empty arguments", () => {
+		assert.deepStrictEqual(parseToolArguments('{"path": "a.ts"}', "read_file"), { path: "a.ts" });
+		assert.deepStrictEqual(parseToolArguments("  ", "read_file"), {});
+	});
+
+	test("removes markdown fences", () => {
+		assert.deepStrictEqual(parseToolArguments('```json\n{"path": "a.ts"}\n```', "read_file"), { path: "a.ts" });
+	});
+
+	test("replaces single quotes and removes trailing commas", () => {
+		assert.deepStrictEqual(parseToolArguments("{'path': 'it\\'s \"here\".ts', 'lines': [1, 2,],}", "read_file"), {
+			path: 'it\'s "here".ts',
+			lines: [1, 2],
+		});
+	});
+
+	test("escapes raw control characters in strings", () => {
+		assert.deepStrictEqual(parseToolArguments('{"text": "a\nb\tc"}', "write_file"), { text: "a\nb\tc" });
+	});
+
+	test("closes a truncated stream", () => {
+		assert.deepStrictEqual(parseToolArguments('{"path": "a.ts", "options": {"lines": [1, 2', "read_file"), {
+			path: "a.ts",
+			options: { lines: [1, 2] },
+		});
+		assert.deepStrictEqual(parseToolArguments('{"path": "a.t', "read_file"), { path: "a.t" });
+	});
+
+	test("returns the error marker for arguments that cannot be repaired", () => {
+		const input = parseToolArguments("path=a.ts", "read_file");
+		assert.deepStrictEqual(Object.keys(input), [TOOL_ARGUMENTS_ERROR_KEY]);
+		assert.match(String(input[TOOL_ARGUMENTS_ERROR_KEY]), /not a valid JSON object/);
+	});
+});
+
+suite("ToolCallChecker", () => {
+	test("reports valid calls as they arrive, coercing their arguments", () => {
+		const { parts, progress } = collect();
+		const checker = new ToolCallChecker(TOOLS, progress);
+		checker.report(new vscode.LanguageModelToolCallPart("call_1", "read_file", { path: "a.ts", limit: "5" }));
+		assert.strictEqual(parts.length, 1);
+		assert.deepStrictEqual((parts[0] as vscode.LanguageModelToolCallPart).input, { path: "a.ts", limit: 5 });
+		assert.strictEqual(checker.finish(true), undefined);
+		assert.strictEqual(parts.length, 1);
+	});
+
+	test("holds back invalid calls and returns them for correction", () => {
+		const { parts, progress } = collect();
+		const checker = new ToolCallChecker(TOOLS, progress);
+		checker.report(new vscode.LanguageModelTextPart("Reading both."));
+		checker.report(new vscode.LanguageModelToolCallPart("call_1", "read_file", { path: "a.ts" }));
+		checker.report(new vscode.LanguageModelToolCallPart("call_2", "read_file", { limit: 5 }));
+		assert.deepStrictEqual(
+			parts.map((p) => (p as vscode.LanguageModelToolCallPart).callId),
+			[undefined, "call_1"]
+		);
+
+		const corrections = checker.finish(true);
+		assert.ok(corrections);
+		const [assistant, user] = corrections;
+		assert.strictEqual(assistant.content.length, 3);
+		const results = user.content as vscode.LanguageModelToolResultPart[];
+		assert.deepStrictEqual(
+			results.map((r) => r.callId),
+			["call_1", "call_2"]
+		);
+		const text = (r: vscode.LanguageModelToolResultPart) => (r.content[0] as vscode.LanguageModelTextPart).value;
+		assert.match(text(results[0]), /do not call it again/);
+		assert.match(text(results[1]), /"path" is required/);
+		assert.strictEqual(parts.length, 2);
+	});
+
+	test("drops invalid calls with a notice when they cannot be corrected", () => {
+		const { parts, progress } = collect();
+		const checker = new ToolCallChecker(TOOLS, progress);
+		checker.report(new vscode.LanguageModelToolCallPart("call_1", "read_file", { path: ["a.ts"] }));
+		assert.strictEqual(checker.finish(false), undefined);
+		assert.strictEqual(parts.length, 1);
+		assert.match((parts[0] as vscode.LanguageModelTextPart).value, /Tool call read_file was not run/);
+	});
+});
@@ -0,0 +1,298 @@
+import type { OpenAIChatMessage, OpenAIFunctionToolDef, ToolCallFormat } from "./types";
+import { tryParseJSONObject } from "./utils";
+
+/** Tool call formats that are written into and parsed out of the message text. */
+export type TextToolCallFormat = Exclude<ToolCallFormat, "native">;
+
+/** A tool call parsed out of the response text. */
+export interface TextToolCall {
+	name: string;
+	/** The arguments as JSON text. */
+	args: string;
+}
+
+/** How a text format writes tool calls and tool results. */
+interface TextToolSyntax {
+	/** Delimiters of a call in the response text. */
+	open: string;
+	close: string;
+	renderCall(name: string, args: Record<string, unknown>): string;
+	renderResult(name: string, content: string): string;
+	/** Parse the text between the delimiters of a call. */
+	parseCall(body: string, tools: OpenAIFunctionToolDef[]): TextToolCall | undefined;
+}
+
+const SYNTAXES: Record<TextToolCallFormat, TextToolSyntax> = {
+	hermes: {
+		open: "<tool_call>",
+		close: "</tool_call>",
+		renderCall: (name, args) => `<tool_call>\n${JSON.stringify({ name, arguments: args })}\n</tool_call>`,
+		renderResult: (_name, content) => `<tool_response>\n${content}\n</tool_response>`,
+		parseCall: (body) => parseJsonCall(body),
+	},
+	xml: {
+		open: "<invoke",
+		close: "</invoke>",
+		renderCall: (name, args) =>
+			[
+				`<invoke name="${name}">`,
+				...Object.entries(args).map(
+					([key, value]) =>
+						`<parameter name="${key}">${typeof value === "string" ? value : JSON.stringify(value)}</parameter>`
+				),
+				"</invoke>",
+			].join("\n"),
+		renderResult: (name, content) => `<tool_result name="${name}">\n${content}\n</tool_result>`,
+		parseCall: (body, tools) => parseXmlCall(body, tools),
+	},
+	"json-block": {
+		open: "```tool_call",
+		close: "```",
+		renderCall: (name, args) => "```tool_call\n" + JSON.stringify({ name, arguments: args }) + "\n```",
+		renderResult: (_name, content) => "```tool_result\n" + content + "\n```",
+		parseCall: (body) => parseJsonCall(body),
+	},
+};
+
+const EXAMPLE_ARGS = { parameter_name: "value" };
+
+/**
+ * Check if a tool call format is written into the message text.
+ * @param format The configured format, if any.
+ */
+export function isTextToolCallFormat(format: ToolCallFormat | undefined): format is TextToolCallFormat {
+	return format !== undefined && format !== "native";
+}
+
+/**
+ * Describe the tools and the call syntax of a text format, for the system prompt.
+ * @param format The text tool call format.
+ * @param tools The converted tools of the request.
+ * @param requiredTool Name of the tool the model must call, for LanguageModelChatToolMode.Required.
+ */
+export function buildToolPrompt(
+	format: TextToolCallFormat,
+	tools: OpenAIFunctionToolDef[],
+	requiredTool?: string
+): string {
+	const syntax = SYNTAXES[format];
+	const definitions = tools.map((t) =>
+		JSON.stringify({ name: t.function.name, description: t.function.description, parameters: t.function.parameters })
+	);
+	const lines = [
+		"# Tools",
+		"",
+		"You can call the following tools. Each one is described by its name, description and the JSON schema of its parameters:",
+		"",
+		"<tools>",
+		...definitions,
+		"</tools>",
+		"",
+		"To call a tool, write the call in exactly this format:",
+		"",
+		syntax.renderCall("tool_name", EXAMPLE_ARGS),
+		"",
+		"You can make several calls in one reply. After your calls, end the reply. The results are sent to you in the next message, each in this format:",
+		"",
+		syntax.renderResult("tool_name", "result"),
+		"",
+		"Never write tool results yourself.",
+	];
+	if (requiredTool) {
+		lines.push(`You must call the tool "${requiredTool}" in this reply.`);
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Rewrite OpenAI messages for a text tool call format: describe the tools in the system prompt, write
+ * earlier tool calls into the assistant text and send tool results as user messages.
+ * @param messages The converted messages.
+ * @param format The text tool call format.
+ * @param tools The converted tools of the request, if any.
+ * @param requiredTool Name of the tool the model must call, for LanguageModelChatToolMode.Required.
+ * @returns Messages without `tool_calls` and "tool" roles.
+ */
+export function applyTextToolProtocol(
+	messages: OpenAIChatMessage[],
+	format: TextToolCallFormat,
+	tools: OpenAIFunctionToolDef[] | undefined,
+	requiredTool?: string
+): OpenAIChatMessage[] {
+	const syntax = SYNTAXES[format];
+	const toolNames = new Map<string, string>();
+	const out: OpenAIChatMessage[] = [];
+	// User message holding the latest tool results. Results and user text right after it join it,
+	// since many chat templates require alternating roles.
+	let results: OpenAIChatMessage | undefined;
+
+	for (const message of messages) {
+		const joinsResults = results !== undefined && out[out.length - 1] === results;
+		if (message.role === "assistant" && message.tool_calls?.length) {
+			const calls = message.tool_calls.map((tc) => {
+				toolNames.set(tc.id, tc.function.name);
+				const parsed = tryParseJSONObject(tc.function.arguments);
+				return syntax.renderCall(tc.function.name, parsed.ok ? parsed.value : {});
+			});
+			const text = typeof message.content === "string" && message.content ? [message.content] : [];
+			out.push({ role: "assistant", content: [...text, ...calls].join("\n\n") });
+		} else if (message.role === "tool") {
+			const content = syntax.renderResult(
+				toolNames.get(message.tool_call_id ?? "") ?? "tool",
+				typeof message.content === "string" ? message.content : ""
+			);
+			if (results && joinsResults) {
+				results.content = `${results.content as string}\n\n${content}`;
+			} else {
+				results = { role: "user", content };
+				out.push(results);
+			}
+		} else if (message.role === "user" && results && joinsResults && typeof message.content === "string") {
+			results.content = `${results.content as string}\n\n${message.content}`;
+		} else {
+			out.push(message);
+		}
+	}
+
+	if (tools?.length) {
+		const prompt = buildToolPrompt(format, tools, requiredTool);
+		const system = out[0]?.role === "system" && typeof out[0].content === "string" ? out[0] : undefined;
+		if (system) {
+			out[0] = { ...system, content: `${system.content as string}\n\n${prompt}` };
+		} else {
+			out.unshift({ role: "system", content: prompt });
+		}
+	}
+	return out;
+}
+
+/**
+ * Finds the tool calls of a text format in streamed response text. Text that may be the start of a
+ * call is held back until the next chunk, so delimiters split across chunks are still recognized.
+ */
+export class TextToolCallParser {
+	private readonly _syntax: TextToolSyntax;
+	private _pending = "";
+	private _inCall = false;
+
+	/**
+	 * @param format The text tool call format.
+	 * @param tools The converted tools of the request, used to read parameter types.
+	 */
+	constructor(
+		format: TextToolCallFormat,
+		private readonly tools: OpenAIFunctionToolDef[]
+	) {
+		this._syntax = SYNTAXES[format];
+	}
+
+	/**
+	 * Add a chunk of response text.
+	 * @param chunk The streamed text.
+	 * @returns Text to show and calls completed by the chunk, in response order.
+	 */
+	push(chunk: string): (string | TextToolCall)[] {
+		const { open, close } = this._syntax;
+		const segments: (string | TextToolCall)[] = [];
+		this._pending += chunk;
+		for (;;) {
+			if (!this._inCall) {
+				const start = this._pending.indexOf(open);
+				if (start === -1) {
+					const keep = partialPrefixLength(this._pending, open);
+					pushText(segments, this._pending.slice(0, this._pending.length - keep));
+					this._pending = this._pending.slice(this._pending.length - keep);
+					break;
+				}
+				pushText(segments, this._pending.slice(0, start));
+				this._pending = this._pending.slice(start + open.length);
+				this._inCall = true;
+			}
+
+			const end = this._pending.indexOf(close);
+			if (end === -1) {
+				break;
+			}
+			const body = this._pending.slice(0, end);
+			segments.push(this._syntax.parseCall(body, this.tools) ?? open + body + close);
+			this._pending = this._pending.slice(end + close.length);
+			this._inCall = false;
+		}
+		return segments;
+	}
+
+	/**
+	 * Release the held back text at the end of the response. A call left open, e.g. because a stop
+	 * sequence matched its closing delimiter, is still parsed.
+	 */
+	flush(): (string | TextToolCall)[] {
+		const pending = this._pending;
+		this._pending = "";
+		if (!this._inCall) {
+			return pending ? [pending] : [];
+		}
+		this._inCall = false;
+		return [this._syntax.parseCall(pending, this.tools) ?? this._syntax.open + pending];
+	}
+}
+
+function pushText(segments: (string | TextToolCall)[], text: string): void {
+	if (text) {
+		segments.push(text);
+	}
+}
+
+/** Length of the longest end of `text` that is the start of `delimiter`. */
+function partialPrefixLength(text: string, delimiter: string): number {
+	for (let length = Math.min(text.length, delimiter.length - 1); length > 0; length--) {
+		if (text.endsWith(delimiter.slice(0, length))) {
+			return length;
+		}
+	}
+	return 0;
+}
+
+/** Parse `{"name": ..., "arguments": ...}` of the hermes and json-block formats. */
+function parseJsonCall(body: string): TextToolCall | undefined {
+	const parsed = tryParseJSONObject(body.trim());
+	if (parsed.ok) {
+		const { name, arguments: args, parameters } = parsed.value;
+		if (typeof name !== "string") {
+			return undefined;
+		}
+		const input = args ?? parameters ?? {};
+		return { name, args: typeof input === "string" ? input : JSON.stringify(input) };
+	}
+	// Keep the arguments of malformed JSON, they are repaired when the call is emitted
+	const name = /"name"\s*:\s*"([^"]+)"/.exec(body)?.[1];
+	const args = /"(?:arguments|parameters)"\s*:\s*([\s\S]*)\}\s*$/.exec(body)?.[1];
+	return name ? { name, args: args ?? "" } : undefined;
+}
+
+/** Parse ` name="..."><parameter name="...">...</parameter>` of the xml format. */
+function parseXmlCall(body: string, tools: OpenAIFunctionToolDef[]): TextToolCall | undefined {
+	const name = /^\s*name\s*=\s*"([^"]+)"\s*>/.exec(body)?.[1];
+	if (!name) {
+		return undefined;
+	}
+	const schema = tools.find((t) => t.function.name === name)?.function.parameters as
+		| { properties?: Record<string, { type?: unknown }> }
+		| undefined;
+	const properties = schema?.properties ?? {};
+
+	const args: Record<string, unknown> = {};
+	for (const [, key, raw] of body.matchAll(/<parameter\s+name\s*=\s*"([^"]+)"\s*>([\s\S]*?)<\/parameter>/g)) {
+		const value = raw.replace(/^\n|\n$/g, "");
+		// Values are written without quotes, so only non-string parameters are read as JSON
+		args[key] = properties[key]?.type === "string" ? value : parseXmlValue(value);
+	}
+	return { name, args: JSON.stringify(args) };
+}
+
+function parseXmlValue(value: string): unknown {
+	try {
+		return JSON.parse(value.trim());
+	} catch {
+		return value;
+	}
+}
@@ -0,0 +1,417 @@
+import * as vscode from "vscode";
+
+import { tryParseJSONObject } from "./utils";
+import { logger } from "./logger";
+
+/**
+ * Key of the input of a tool call whose arguments could not be read. Its value tells the model what
+ * went wrong. `ToolCallChecker` sends such calls back to the model instead of reporting them.
+ */
+export const TOOL_ARGUMENTS_ERROR_KEY = "_tool_arguments_error";
+
+/** Result sent to the model for a valid call of a reply that also had invalid calls. It was already reported. */
+const PENDING_RESULT =
+	"This call is valid and runs. Its result is returned together with the results of the corrected calls, do not call it again.";
+
+/**
+ * Parse the streamed arguments of a tool call. Malformed JSON is repaired when possible, otherwise the
+ * call gets an input carrying the error under `TOOL_ARGUMENTS_ERROR_KEY` instead of failing the response.
+ * @param text The arguments as JSON text. Empty text means no arguments.
+ * @param toolName Name of the called tool, for logging.
+ * @returns The arguments object.
+ */
+export function parseToolArguments(text: string, toolName: string): Record<string, unknown> {
+	if (!text.trim()) {
+		return {};
+	}
+	const parsed = tryParseJSONObject(text);
+	if (parsed.ok) {
+		return parsed.value;
+	}
+
+	const repaired = repairJSON(text);
+	const reparsed = tryParseJSONObject(repaired.text);
+	if (reparsed.ok) {
+		logger.warn(`Repaired arguments of tool call ${toolName}: ${repaired.repairs.join(", ")}`);
+		return reparsed.value;
+	}
+
+	logger.error("Invalid JSON for tool call", { name: toolName, snippet: text.slice(0, 200) });
+	return {
+		[TOOL_ARGUMENTS_ERROR_KEY]:
+			`The arguments of this ${toolName} call were not a valid JSON object. ` +
+			`Call the tool again with valid JSON arguments. Received: ${text.slice(0, 500)}`,
+	};
+}
+
+/**
+ * Fix the mistakes models commonly make in JSON: markdown fences around it, single-quoted strings,
+ * raw newlines and tabs inside strings, trailing commas and missing closing quotes and brackets at
+ * the end of a truncated stream.
+ * @param text The malformed JSON text.
+ * @returns The repaired text and a description of each kind of repair made.
+ */
+function repairJSON(text: string): { text: string; repairs: string[] } {
+	const repairs = new Set<string>();
+	let input = text.trim();
+	const fenced = /^```[\w-]*\s*\n?([\s\S]*?)\n?```$/.exec(input);
+	if (fenced) {
+		input = fenced[1].trim();
+		repairs.add("removed markdown fence");
+	}
+
+	let out = "";
+	const closers: string[] = [];
+	let quote: '"' | "'" | undefined;
+	const dropTrailingComma = () => {
+		const trimmed = out.trimEnd();
+		if (trimmed.endsWith(",")) {
+			out = trimmed.slice(0, -1);
+			repairs.add("removed trailing commas");
+		}
+	};
+
+	for (let i = 0; i < input.length; i++) {
+		const ch = input[i];
+		if (quote) {
+			if (ch === "\\") {
+				const next = input[i + 1];
+				if (next === undefined) {
+					break;
+				}
+				// \' is not a JSON escape, the quote needs none inside a double-quoted string
+				out += quote === "'" && next === "'" ? "'" : ch + next;
+				i++;
+			} else if (ch === quote) {
+				out += '"';
+				quote = undefined;
+			} else if (ch === '"') {
+				out += '\\"';
+			} else if (ch < " ") {
+				out += ch === "\n" ? "\\n" : ch === "\r" ? "\\r" : ch === "\t" ? "\\t" : "";
+				repairs.add("escaped control characters in strings");
+			} else {
+				out += ch;
+			}
+			continue;
+		}
+
+		if (ch === '"') {
+			quote = ch;
+		} else if (ch === "'") {
+			quote = ch;
+			out += '"';
+			repairs.add("replaced single quotes");
+			continue;
+		} else if (ch === "{" || ch === "[") {
+			closers.push(ch === "{" ? "}" : "]");
+		} else if (ch === "}" || ch === "]") {
+			dropTrailingComma();
+			closers.pop();
+		}
+		out += ch;
+	}
+
+	if (quote) {
+		out += '"';
+		repairs.add("closed unterminated string");
+	}
+	if (closers.length > 0) {
+		dropTrailingComma();
+		out += closers.reverse().join("");
+		repairs.add("added missing closing brackets");
+	}
+	return { text: out, repairs: [...repairs] };
+}
+
+/**
+ * The JSON schema keywords checked in tool arguments. Other keywords are not checked.
+ */
+interface JsonSchema {
+	type?: string | string[];
+	properties?: Record<string, JsonSchema>;
+	required?: string[];
+	additionalProperties?: boolean | JsonSchema;
+	items?: JsonSchema | JsonSchema[];
+	enum?: unknown[];
+	anyOf?: JsonSchema[];
+	oneOf?: JsonSchema[];
+	default?: unknown;
+}
+
+/** Problems and coercions found while checking arguments against a schema. */
+interface SchemaCheck {
+	problems: string[];
+	coercions: string[];
+}
+
+/**
+ * Progress reporter that checks the arguments of tool calls against the tools' own input schemas, not
+ * the sanitized ones sent to the API. Safe coercions are applied, such as "5" to 5, "true" to true or a
+ * single value to a list, and valid calls are reported as they arrive. Calls that still don't match, or
+ * whose arguments could not be read, are never reported: `finish` returns them with tool results
+ * describing the problems, to be sent back to the model so it can correct them.
+ */
+export class ToolCallChecker implements vscode.Progress<vscode.LanguageModelResponsePart2> {
+	/** All tool calls of the response, valid or not. */
+	private readonly _calls: vscode.LanguageModelToolCallPart[] = [];
+	/** Problems of the invalid calls, keyed by call id. They are held back until `finish`. */
+	private readonly _problems = new Map<string, string>();
+	private _text = "";
+
+	/**
+	 * @param tools The tools of the request.
+	 * @param progress Progress reporter receiving the response parts and the valid tool calls.
+	 */
+	constructor(
+		private readonly tools: readonly vscode.LanguageModelChatTool[] | undefined,
+		private readonly progress: vscode.Progress<vscode.LanguageModelResponsePart2>
+	) {}
+
+	report(part: vscode.LanguageModelResponsePart2): void {
+		if (part instanceof vscode.LanguageModelToolCallPart) {
+			const checked = checkToolCall(part, this.tools);
+			this._calls.push(checked.part);
+			if (checked.problem) {
+				this._problems.set(part.callId, checked.problem);
+			} else {
+				this.progress.report(checked.part);
+			}
+			return;
+		}
+		if (part instanceof vscode.LanguageModelTextPart) {
+			this._text += part.value;
+		}
+		this.progress.report(part);
+	}
+
+	/**
+	 * Handle the invalid tool calls at the end of the response.
+	 * @param canCorrect Whether the model may be asked to correct invalid calls. Otherwise they are
+	 * dropped with a notice in the response.
+	 * @returns The assistant message with the calls and a user message with the problems as tool
+	 * results, to send to the model, or undefined when no call is left to correct.
+	 */
+	finish(canCorrect: boolean): vscode.LanguageModelChatMessage[] | undefined {
+		if (this._problems.size === 0 || !canCorrect) {
+			for (const call of this._calls) {
+				const problem = this._problems.get(call.callId);
+				if (problem) {
+					this.progress.report(
+						new vscode.LanguageModelTextPart(`\n\n*Tool call ${call.name} was not run: ${problem}*\n`)
+					);
+				}
+			}
+			return undefined;
+		}
+
+		logger.warn(`Asking the model to correct ${this._problems.size} invalid tool call(s)`);
+		const content = this._text ? [new vscode.LanguageModelTextPart(this._text), ...this._calls] : this._calls;
+		const results = this._calls.map(
+			(call) =>
+				new vscode.LanguageModelToolResultPart(call.callId, [
+					new vscode.LanguageModelTextPart(this._problems.get(call.callId) ?? PENDING_RESULT),
+				])
+		);
+		return [vscode.LanguageModelChatMessage.Assistant(content), vscode.LanguageModelChatMessage.User(results)];
+	}
+}
+
+/**
+ * Check the arguments of a tool call against the tool's input schema.
+ * @returns The tool call with coerced arguments, and a description of the mismatches that remain.
+ */
+function checkToolCall(
+	part: vscode.LanguageModelToolCallPart,
+	tools: readonly vscode.LanguageModelChatTool[] | undefined
+): { part: vscode.LanguageModelToolCallPart; problem?: string } {
+	const input = part.input as Record<string, unknown>;
+	if (isPlainObject(input) && typeof input[TOOL_ARGUMENTS_ERROR_KEY] === "string") {
+		return { part, problem: input[TOOL_ARGUMENTS_ERROR_KEY] };
+	}
+	const schema = tools?.find((t) => t.name === part.name)?.inputSchema as JsonSchema | undefined;
+	if (!schema || !isPlainObject(input)) {
+		return { part };
+	}
+
+	const check: SchemaCheck = { problems: [], coercions: [] };
+	const value = checkValue(input, schema, "", check) as Record<string, unknown>;
+	if (check.coercions.length > 0) {
+		logger.warn(`Coerced arguments of tool call ${part.name}: ${check.coercions.join(", ")}`);
+	}
+	if (check.problems.length > 0) {
+		logger.warn(`Invalid arguments for tool call ${part.name}: ${check.problems.join(", ")}`);
+		return {
+			part,
+			problem:
+				`The arguments of this ${part.name} call do not match its input schema: ${check.problems.join(", ")}. ` +
+				`Call the tool again with corrected arguments.`,
+		};
+	}
+	return {
+		part: check.coercions.length > 0 ? new vscode.LanguageModelToolCallPart(part.callId, part.name, value) : part,
+	};
+}
+
+function checkValue(value: unknown, schema: JsonSchema, path: string, check: SchemaCheck): unknown {
+	if (!schema || typeof schema !== "object") {
+		return value;
+	}
+
+	const branches = schema.anyOf ?? schema.oneOf;
+	if (branches?.length) {
+		// Prefer a branch the value matches as is, then one it matches after coercion
+		const results = branches.map((branch) => {
+			const branchCheck: SchemaCheck = { problems: [], coercions: [] };
+			return { value: checkValue(value, branch, path, branchCheck), check: branchCheck };
+		});
+		const match =
+			results.find((r) => r.check.problems.length === 0 && r.check.coercions.length === 0) ??
+			results.find((r) => r.check.problems.length === 0);
+		if (!match) {
+			check.problems.push(`${label(path)} matches none of the allowed schemas`);
+			return value;
+		}
+		check.coercions.push(...match.check.coercions);
+		value = match.value;
+	}
+
+	const types = schema.type === undefined ? undefined : Array.isArray(schema.type) ? schema.type : [schema.type];
+	if (types && !types.some((t) => matchesType(value, t))) {
+		const coerced = coerceValue(value, types);
+		if (coerced === undefined) {
+			check.problems.push(`${label(path)} must be ${types.join(" or ")}, got ${describeValue(value)}`);
+			return value;
+		}
+		check.coercions.push(`${label(path)} from ${describeValue(value)} to ${coerced.type}`);
+		value = coerced.value;
+	}
+
+	if (schema.enum && !schema.enum.includes(value)) {
+		// Only the case of a string may differ
+		const text = typeof value === "string" ? value.toLowerCase() : undefined;
+		const match = schema.enum.find((e) => typeof e === "string" && e.toLowerCase() === text);
+		if (match === undefined) {
+			const allowed = schema.enum.map((e) => JSON.stringify(e)).join(", ");
+			check.problems.push(`${label(path)} must be one of ${allowed}`);
+			return value;
+		}
+		check.coercions.push(`${label(path)} to ${JSON.stringify(match)}`);
+		value = match;
+	}
+
+	if (isPlainObject(value)) {
+		const object = { ...value };
+		const properties = schema.properties ?? {};
+		for (const key of schema.required ?? []) {
+			if (object[key] !== undefined) {
+				continue;
+			}
+			if (properties[key]?.default !== undefined) {
+				object[key] = properties[key].default;
+				check.coercions.push(`${label(childPath(path, key))} set to its default`);
+			} else {
+				check.problems.push(`${label(childPath(path, key))} is required`);
+			}
+		}
+		for (const [key, item] of Object.entries(object)) {
+			if (properties[key]) {
+				object[key] = checkValue(item, properties[key], childPath(path, key), check);
+			} else if (schema.additionalProperties === false) {
+				check.problems.push(`${label(childPath(path, key))} is not allowed`);
+			} else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+				object[key] = checkValue(item, schema.additionalProperties, childPath(path, key), check);
+			}
+		}
+		return object;
+	}
+
+	if (Array.isArray(value) && schema.items && !Array.isArray(schema.items)) {
+		const items = schema.items;
+		return value.map((item, i) => checkValue(item, items, `${path}[${i}]`, check));
+	}
+	return value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+	switch (type) {
+		case "string":
+			return typeof value === "string";
+		case "number":
+			return typeof value === "number" && Number.isFinite(value);
+		case "integer":
+			return Number.isInteger(value);
+		case "boolean":
+			return typeof value === "boolean";
+		case "array":
+			return Array.isArray(value);
+		case "object":
+			return isPlainObject(value);
+		case "null":
+			return value === null;
+		default:
+			return true;
+	}
+}
+
+/**
+ * Convert a value to one of the schema types when that loses nothing, e.g. "5" to 5. A value that is
+ * not a list becomes a list holding it.
+ * @returns The converted value and its type, or undefined when no conversion is safe.
+ */
+function coerceValue(value: unknown, types: string[]): { value: unknown; type: string } | undefined {
+	for (const type of types) {
+		if (typeof value === "string") {
+			const text = value.trim();
+			if (type === "integer" && /^-?\d+$/.test(text)) {
+				return { value: Number(text), type };
+			}
+			if (type === "number" && text !== "" && Number.isFinite(Number(text))) {
+				return { value: Number(text), type };
+			}
+			if (type === "boolean" && /^(true|false)$/i.test(text)) {
+				return { value: text.toLowerCase() === "true", type };
+			}
+			if ((type === "array" || type === "object") && /^[[{]/.test(text)) {
+				const parsed = parseJSON(text);
+				if (matchesType(parsed, type)) {
+					return { value: parsed, type };
+				}
+			}
+		}
+		if (type === "string" && (typeof value === "number" || typeof value === "boolean")) {
+			return { value: String(value), type };
+		}
+	}
+	if (types.includes("array") && value !== undefined && value !== null) {
+		return { value: [value], type: "array" };
+	}
+	return undefined;
+}
+
+function parseJSON(text: string): unknown {
+	try {
+		return JSON.parse(text);
+	} catch {
+		return undefined;
+	}
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function childPath(path: string, key: string): string {
+	return path ? `${path}.${key}` : key;
+}
+
+function label(path: string): string {
+	return path ? `"${path}"` : "the arguments";
+}
+
+function describeValue(value: unknown): string {
+	if (value === null) {
+		return "null";
+	}
+	return Array.isArray(value) ? "array" : typeof value === "string" ? `string ${JSON.stringify(value)}` : typeof value;
+}
@@ -0,0 +1,98 @@
+import * as vscode from "vscode";
+
+import type { RequestTimeouts } from "./types";
+
+type TimeoutPhase = "connect" | "first_token" | "idle";
+
+const PHASE_LABELS: Record<TimeoutPhase, string> = {
+	connect: "Connecting",
+	first_token: "Waiting for the first token",
+	idle: "Waiting for the next stream chunk",
+};
+
+/**
+ * Raised when a request is aborted by one of the configured `timeouts`.
+ */
+export class RequestTimeoutError extends Error {
+	override readonly name = "RequestTimeoutError";
+
+	constructor(
+		readonly phase: TimeoutPhase,
+		readonly timeoutMs: number
+	) {
+		super(`${PHASE_LABELS[phase]} timed out after ${timeoutMs}ms`);
+	}
+}
+
+/**
+ * Abort handle for one HTTP attempt. Aborts the fetch and its body stream when the
+ * request is cancelled or when a phase timer runs out.
+ */
+export class RequestAbort implements vscode.Disposable {
+	private readonly _controller = new AbortController();
+	private readonly _timers = new Map<TimeoutPhase, ReturnType<typeof setTimeout>>();
+	private readonly _cancellationListener: vscode.Disposable;
+
+	/**
+	 * @param token Cancellation token of the chat request.
+	 * @param timeouts Timeouts of the model, if any.
+	 */
+	constructor(
+		token: vscode.CancellationToken,
+		private readonly timeouts: RequestTimeouts | undefined
+	) {
+		this._cancellationListener = token.onCancellationRequested(() => {
+			this._controller.abort(new Error("Request was cancelled"));
+		});
+		if (token.isCancellationRequested) {
+			this._controller.abort(new Error("Request was cancelled"));
+		}
+	}
+
+	get signal(): AbortSignal {
+		return this._controller.signal;
+	}
+
+	/**
+	 * (Re)start the timer of a phase. Phases without a configured timeout are ignored.
+	 * @param phase The request phase.
+	 */
+	startTimer(phase: TimeoutPhase): void {
+		this.clearTimer(phase);
+		const ms = this.timeouts?.[`${phase}_ms`];
+		if (ms && ms > 0) {
+			this._timers.set(
+				phase,
+				setTimeout(() => this._controller.abort(new RequestTimeoutError(phase, ms)), ms)
+			);
+		}
+	}
+
+	clearTimer(phase: TimeoutPhase): void {
+		const timer = this._timers.get(phase);
+		if (timer) {
+			clearTimeout(timer);
+			this._timers.delete(phase);
+		}
+	}
+
+	/**
+	 * The error that explains a failure: the abort reason if this handle aborted the request,
+	 * otherwise the error itself (fetch reports aborts as a generic AbortError).
+	 * @param error The error thrown by fetch or the body reader.
+	 */
+	resolveError(error: unknown): Error {
+		if (this.signal.aborted && this.signal.reason instanceof Error) {
+			return this.signal.reason;
+		}
+		return error instanceof Error ? error : new Error(String(error));
+	}
+
+	dispose(): void {
+		for (const timer of this._timers.values()) {
+			clearTimeout(timer);
+		}
+		this._timers.clear();
+		this._cancellationListener.dispose();
+	}
+}
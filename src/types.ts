@@ -14,6 +14,7 @@ export interface OpenAIToolCall {
 export interface OpenAIFunctionToolDef {
 	type: "function";
 	function: { name: string; description?: string; parameters?: object };
+	cache_control?: CacheControl;
 }
 
 /**
@@ -36,6 +37,14 @@ export interface ChatMessageContent {
 	image_url?: {
 		url: string;
 	};
+	cache_control?: CacheControl;
+}
+
+/**
+ * Prompt caching breakpoint: the prompt up to and including the marked part is cached.
+ */
+export interface CacheControl {
+	type: "ephemeral";
 }
 
 /**
@@ -69,6 +78,8 @@ export interface HFModelItem {
 	architecture?: HFArchitecture;
 	context_length?: number;
 	vision?: boolean;
+	// Advertised to VS Code as the toolCalling capability, defaults to true
+	toolCalling?: boolean;
 	max_tokens?: number;
 	// OpenAI new standard parameter
 	max_completion_tokens?: number;
@@ -108,6 +119,149 @@ export interface HFModelItem {
 	 * Example: { "X-API-Version": "v1", "X-Custom-Header": "value" }
 	 */
 	headers?: Record<string, string>;
+
+	/**
+	 * Wire protocol used to talk to this model's provider. Defaults to "openai",
+	 * which posts to `${baseUrl}/chat/completions`.
+	 */
+	apiMode?: ApiMode;
+
+	/**
+	 * How long Ollama keeps the model loaded after the request (e.g. "5m", "1h", -1).
+	 * Only used when apiMode is "ollama".
+	 */
+	keep_alive?: string | number;
+
+	/**
+	 * Models to try in order when this model fails with a retryable error, a network error
+	 * or an "unavailable" client error. Each entry is "id::configId", a configId or an id
+	 * from `oaicopilot.models`.
+	 */
+	fallbacks?: string[];
+
+	/**
+	 * Timeouts for connecting, the first streamed token and the gap between stream chunks.
+	 * Unset timeouts never fire.
+	 */
+	timeouts?: RequestTimeouts;
+
+	/**
+	 * Tokenizer used for token counting. Inferred from family and id when not set.
+	 */
+	tokenizer?: TokenizerName;
+
+	/**
+	 * Prices per million tokens, used to compute the cost of each request.
+	 */
+	pricing?: ModelPricing;
+
+	/**
+	 * Provider preset from the bundled catalog (e.g. "deepseek", "openrouter"). Its base URL, headers
+	 * and reasoning field apply underneath the fields set on this entry.
+	 */
+	preset?: string;
+
+	/**
+	 * Add `cache_control` breakpoints to the system prompt, tool definitions and the most recent
+	 * large messages. Only used when apiMode is "openai" or "anthropic".
+	 */
+	promptCaching?: boolean;
+
+	/**
+	 * How the model calls tools. "native" uses the API's `tools` field, the text formats describe the
+	 * tools in the system prompt and parse calls out of the response. Only used when apiMode is "openai".
+	 */
+	toolCallFormat?: ToolCallFormat;
+}
+
+/**
+ * Tool calling protocols, the text formats serve models deployed without a tool call parser.
+ * - native: the API's `tools` field and streamed `tool_calls`
+ * - hermes: `<tool_call>{"name": ..., "arguments": ...}</tool_call>` in the response text
+ * - xml: `<invoke name="..."><parameter name="...">...</parameter></invoke>` in the response text
+ * - json-block: a fenced tool_call code block holding `{"name": ..., "arguments": ...}`
+ */
+export type ToolCallFormat = "native" | "hermes" | "xml" | "json-block";
+
+/**
+ * Model prices in USD per million tokens.
+ */
+export interface ModelPricing {
+	input?: number;
+	output?: number;
+	/** Price of prompt tokens served from the provider's cache. Defaults to `input`. */
+	cached_input?: number;
+	/** Price of reasoning tokens. Defaults to `output`. */
+	reasoning?: number;
+}
+
+/**
+ * Spending limits in USD for one entry of `oaicopilot.budgets`, keyed by `owned_by` or "*" for all providers.
+ */
+export interface BudgetConfig {
+	daily?: number;
+	monthly?: number;
+}
+
+/**
+ * Tokenizers available for token counting.
+ * - o200k / cl100k: OpenAI BPE vocabularies
+ * - llama3 / qwen / deepseek: the vocabularies of Llama 3, Qwen 2.5 and DeepSeek V3
+ * - heuristic: character based estimate without a vocabulary
+ */
+export type TokenizerName = "o200k" | "cl100k" | "llama3" | "qwen" | "deepseek" | "heuristic";
+
+/**
+ * Per-model request timeouts in milliseconds.
+ */
+export interface RequestTimeouts {
+	connect_ms?: number;
+	first_token_ms?: number;
+	idle_ms?: number;
+}
+
+/**
+ * Limits for one provider in `oaicopilot.rateLimits`, keyed by `owned_by` or base URL.
+ */
+export interface RateLimitConfig {
+	requests_per_minute?: number;
+	/** Counted with the same prompt token estimates as `provideTokenCount`. */
+	tokens_per_minute?: number;
+	max_concurrent?: number;
+	/** Fixed delay after the previous request finished. Overrides `oaicopilot.delay` for the entry. */
+	delay_ms?: number;
+}
+
+/**
+ * Supported request/stream protocols.
+ * - openai: OpenAI-compatible `/chat/completions`
+ * - anthropic: Anthropic Messages API `/messages`
+ * - responses: OpenAI Responses API `/responses`
+ * - gemini: Google Gemini API `:streamGenerateContent`
+ * - ollama: Ollama native `/api/chat`
+ */
+export type ApiMode = "openai" | "anthropic" | "responses" | "gemini" | "ollama";
+
+/**
+ * Turns parsed stream events of an apiMode into response parts.
+ * A new decoder is created for every request.
+ */
+export interface StreamDecoder {
+	/** Token usage reported by the provider, once the stream carried it. */
+	readonly usage: TokenUsage | undefined;
+	processEvent(event: Record<string, unknown>): void;
+}
+
+/**
+ * Token usage of one response as reported by the provider.
+ */
+export interface TokenUsage {
+	promptTokens: number;
+	completionTokens: number;
+	/** Reasoning tokens, included in completionTokens. */
+	reasoningTokens?: number;
+	/** Prompt tokens served from the provider's cache, included in promptTokens. */
+	cachedTokens?: number;
 }
 
 /**
@@ -129,14 +283,6 @@ export interface HFExtraModelInfo {
 	pipeline_tag?: string;
 }
 
-/**
- * Response envelope for the router models listing.
- */
-export interface HFModelsResponse {
-	object: string;
-	data: HFModelItem[];
-}
-
 /**
  * Buffer used to accumulate streamed tool call parts until arguments are valid JSON.
  */
@@ -178,6 +324,8 @@ export type ReasoningDetail = ReasoningSummaryDetail | ReasoningEncryptedDetail
  */
 export interface ThinkingConfig {
 	type?: string;
+	// Anthropic extended thinking budget, only used when apiMode is "anthropic"
+	budget_tokens?: number;
 }
 
 /**
@@ -186,5 +334,161 @@ export interface ThinkingConfig {
 export interface RetryConfig {
 	enabled?: boolean;
 	max_attempts?: number;
+	/** Base delay of the exponential backoff. */
 	interval_ms?: number;
+	/** Upper bound for backoff and server requested delays. */
+	max_delay_ms?: number;
+}
+
+/**
+ * Ways to shrink a request that exceeds the model's input budget, applied in order.
+ * - truncate_tool_results: replace oversized tool results with head/tail excerpts
+ * - drop_tool_calls: remove the oldest tool call/result pairs
+ * - drop_turns: remove the oldest conversation turns
+ */
+export type ContextGuardStrategy = "truncate_tool_results" | "drop_tool_calls" | "drop_turns";
+
+/**
+ * Model discovery configuration
+ */
+export interface ModelDiscoveryConfig {
+	enabled?: boolean;
+	/** How long discovered models are cached before the endpoints are queried again. */
+	ttl_minutes?: number;
+}
+
+/**
+ * Context-window guard configuration
+ */
+export interface ContextGuardConfig {
+	enabled?: boolean;
+	strategies?: ContextGuardStrategy[];
+	/** Tool results above this many tokens are truncated by "truncate_tool_results". */
+	tool_result_max_tokens?: number;
+}
+
+/**
+ * Anthropic Messages API content block used in requests.
+ */
+export type AnthropicContentBlock = (
+	| { type: "text"; text: string }
+	| { type: "image"; source: { type: "base64"; media_type: string; data: string } }
+	| { type: "tool_use"; id: string; name: string; input: Record<string, unknown> }
+	| { type: "tool_result"; tool_use_id: string; content: string; is_error?: boolean }
+	| { type: "thinking"; thinking: string; signature: string }
+	| { type: "redacted_thinking"; data: string }
+) & { cache_control?: CacheControl };
+
+/**
+ * Anthropic Messages API message. The system prompt is sent separately.
+ */
+export interface AnthropicMessage {
+	role: "user" | "assistant";
+	content: AnthropicContentBlock[];
+}
+
+/**
+ * Anthropic tool definition used to advertise tools.
+ */
+export interface AnthropicToolDef {
+	name: string;
+	description?: string;
+	input_schema: object;
+	cache_control?: CacheControl;
+}
+
+/**
+ * OpenAI Responses API input item.
+ */
+export type ResponsesInputItem =
+	| {
+			type: "message";
+			role: "system" | "user" | "assistant";
+			content: Array<
+				| { type: "input_text"; text: string }
+				| { type: "input_image"; image_url: string }
+				| { type: "output_text"; text: string }
+			>;
+	  }
+	| { type: "function_call"; call_id: string; name: string; arguments: string }
+	| { type: "function_call_output"; call_id: string; output: string }
+	| ResponsesReasoningItem;
+
+/**
+ * Reasoning item returned by the Responses API. With `store: false` it must be sent back
+ * verbatim (including `encrypted_content`) before the function calls it produced.
+ */
+export interface ResponsesReasoningItem {
+	type: "reasoning";
+	id: string;
+	summary: Array<{ type: string; text: string }>;
+	encrypted_content?: string;
+}
+
+/**
+ * OpenAI Responses API function tool definition.
+ */
+export interface ResponsesFunctionToolDef {
+	type: "function";
+	name: string;
+	description?: string;
+	parameters?: object;
+}
+
+/**
+ * Gemini API content part. `thoughtSignature` must be returned on the exact part it arrived on.
+ */
+export interface GeminiPart {
+	text?: string;
+	thought?: boolean;
+	inlineData?: { mimeType: string; data: string };
+	functionCall?: { id?: string; name: string; args?: Record<string, unknown> };
+	functionResponse?: { id?: string; name: string; response: Record<string, unknown> };
+	thoughtSignature?: string;
+}
+
+/**
+ * Gemini API content entry. The system prompt is sent separately as `systemInstruction`.
+ */
+export interface GeminiContent {
+	role: "user" | "model";
+	parts: GeminiPart[];
+}
+
+/**
+ * Gemini API function declaration used to advertise tools.
+ */
+export interface GeminiFunctionDeclaration {
+	name: string;
+	description?: string;
+	parameters?: object;
+}
+
+/**
+ * Ollama native `/api/chat` message.
+ */
+export interface OllamaChatMessage {
+	role: "system" | "user" | "assistant" | "tool";
+	content: string;
+	images?: string[];
+	tool_calls?: Array<{ function: { name: string; arguments: Record<string, unknown> } }>;
+	tool_name?: string;
+}
+
+/**
+ * Subset of the Ollama `/api/show` response used for model discovery.
+ */
+export interface OllamaShowResponse {
+	capabilities?: string[];
+	model_info?: Record<string, unknown>;
+	details?: { family?: string };
+}
+
+/**
+ * Model details read from the Ollama `/api/show` response.
+ */
+export interface OllamaModelInfo {
+	context_length?: number;
+	vision?: boolean;
+	tools?: boolean;
 }
@@ -0,0 +1,240 @@
+import * as vscode from "vscode";
+
+import type { TokenUsage } from "./types";
+
+const USAGE_STATE_KEY = "oaicopilot.usage";
+
+/** Days of usage kept in globalState. */
+const USAGE_RETENTION_DAYS = 90;
+
+/**
+ * Accumulated usage of one model, provider and workspace on one day.
+ */
+export interface UsageRow {
+	model: string;
+	provider: string;
+	workspace: string;
+	requests: number;
+	promptTokens: number;
+	completionTokens: number;
+	reasoningTokens: number;
+	cachedTokens: number;
+	/** Cost in USD, zero for models without `pricing`. */
+	cost: number;
+}
+
+/** Usage rows keyed by local day ("YYYY-MM-DD"). */
+type UsageState = Record<string, UsageRow[]>;
+
+type UsageTotals = Omit<UsageRow, "model" | "provider" | "workspace">;
+
+/**
+ * Local calendar day of a date as "YYYY-MM-DD".
+ * @param date The date, defaults to now.
+ */
+export function dayKey(date = new Date()): string {
+	const pad = (n: number) => String(n).padStart(2, "0");
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function emptyTotals(): UsageTotals {
+	return { requests: 0, promptTokens: 0, completionTokens: 0, reasoningTokens: 0, cachedTokens: 0, cost: 0 };
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals): void {
+	target.requests += source.requests;
+	target.promptTokens += source.promptTokens;
+	target.completionTokens += source.completionTokens;
+	target.reasoningTokens += source.reasoningTokens;
+	target.cachedTokens += source.cachedTokens;
+	target.cost += source.cost;
+}
+
+/**
+ * Persistent per-day token usage ledger stored in extension `globalState`.
+ */
+export class UsageLedger implements vscode.Disposable {
+	private readonly _onDidChange = new vscode.EventEmitter<void>();
+
+	/** Fires after a request was recorded. */
+	readonly onDidChange = this._onDidChange.event;
+
+	constructor(private readonly state: vscode.Memento) {}
+
+	/**
+	 * Add the usage of one request to today's row for its model, provider and workspace.
+	 * @param model The model id.
+	 * @param provider The provider (owned_by or host).
+	 * @param usage The usage reported by the provider, or estimated.
+	 * @param cost The cost of the request in USD.
+	 */
+	async record(model: string, provider: string, usage: TokenUsage, cost = 0): Promise<void> {
+		const workspace = vscode.workspace.name ?? "(no workspace)";
+		const state = this.state.get<UsageState>(USAGE_STATE_KEY, {});
+		const today = dayKey();
+		const rows = state[today] ?? [];
+
+		let row = rows.find((r) => r.model === model && r.provider === provider && r.workspace === workspace);
+		if (!row) {
+			row = { model, provider, workspace, ...emptyTotals() };
+			rows.push(row);
+		}
+		addTotals(row, {
+			requests: 1,
+			promptTokens: usage.promptTokens,
+			completionTokens: usage.completionTokens,
+			reasoningTokens: usage.reasoningTokens ?? 0,
+			cachedTokens: usage.cachedTokens ?? 0,
+			cost,
+		});
+
+		const cutoff = new Date();
+		cutoff.setDate(cutoff.getDate() - USAGE_RETENTION_DAYS);
+		const oldest = dayKey(cutoff);
+		const next: UsageState = { [today]: rows };
+		for (const [day, dayRows] of Object.entries(state)) {
+			if (day !== today && day >= oldest) {
+				next[day] = dayRows;
+			}
+		}
+
+		await this.state.update(USAGE_STATE_KEY, next);
+		this._onDidChange.fire();
+	}
+
+	/**
+	 * Usage rows from the given day (inclusive) until today.
+	 * @param sinceDay The first day to include, as "YYYY-MM-DD".
+	 */
+	rowsSince(sinceDay: string): UsageRow[] {
+		const state = this.state.get<UsageState>(USAGE_STATE_KEY, {});
+		return Object.entries(state)
+			.filter(([day]) => day >= sinceDay)
+			.flatMap(([, rows]) => rows);
+	}
+
+	/**
+	 * Total cost from the given day (inclusive) until today.
+	 * @param sinceDay The first day to include, as "YYYY-MM-DD".
+	 * @param provider Only count this provider (case-insensitive), all providers when omitted.
+	 */
+	costSince(sinceDay: string, provider?: string): number {
+		return this.rowsSince(sinceDay)
+			.filter((row) => provider === undefined || row.provider.toLowerCase() === provider.toLowerCase())
+			.reduce((sum, row) => sum + row.cost, 0);
+	}
+
+	/**
+	 * Totals of all rows of today.
+	 */
+	todayTotals(): UsageTotals {
+		const totals = emptyTotals();
+		for (const row of this.rowsSince(dayKey())) {
+			addTotals(totals, row);
+		}
+		return totals;
+	}
+
+	dispose(): void {
+		this._onDidChange.dispose();
+	}
+}
+
+/**
+ * Format a token count compactly, e.g. 12345 -> "12.3k".
+ * @param n The token count.
+ */
+export function formatTokens(n: number): string {
+	if (n >= 1_000_000) {
+		return `${(n / 1_000_000).toFixed(1)}M`;
+	}
+	if (n >= 1000) {
+		return `${(n / 1000).toFixed(1)}k`;
+	}
+	return String(n);
+}
+
+/**
+ * Format a cost in USD, with more precision for small amounts.
+ * @param cost The cost in USD.
+ */
+export function formatCost(cost: number): string {
+	return `$${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`;
+}
+
+/**
+ * Create the status bar item showing today's token totals.
+ * @param ledger The usage ledger.
+ */
+export function createUsageStatusBarItem(ledger: UsageLedger): vscode.Disposable {
+	const item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+	item.name = "OAI Compatible Usage";
+	item.command = "oaicopilot.showUsage";
+
+	const update = () => {
+		const totals = ledger.todayTotals();
+		const tokens = formatTokens(totals.promptTokens + totals.completionTokens);
+		item.text = totals.cost > 0 ? `$(pulse) ${tokens} · ${formatCost(totals.cost)}` : `$(pulse) ${tokens}`;
+		item.tooltip = [
+			"OAI Compatible usage today",
+			`Requests: ${totals.requests}`,
+			`Prompt tokens: ${totals.promptTokens} (cached ${totals.cachedTokens})`,
+			`Completion tokens: ${totals.completionTokens} (reasoning ${totals.reasoningTokens})`,
+			`Cost: ${formatCost(totals.cost)}`,
+		].join("\n");
+		item.show();
+	};
+	update();
+
+	const listener = ledger.onDidChange(update);
+	return vscode.Disposable.from(item, listener);
+}
+
+/**
+ * Build a markdown report of usage grouped by model, provider and workspace.
+ * @param ledger The usage ledger.
+ */
+export function buildUsageReport(ledger: UsageLedger): string {
+	const since = new Date();
+	since.setDate(since.getDate() - 29);
+	const periods: [string, UsageRow[]][] = [
+		["Today", ledger.rowsSince(dayKey())],
+		["Last 30 days", ledger.rowsSince(dayKey(since))],
+	];
+	const groupings: [string, (row: UsageRow) => string][] = [
+		["Model", (row) => row.model],
+		["Provider", (row) => row.provider],
+		["Workspace", (row) => row.workspace],
+	];
+
+	const lines = ["# OAI Compatible Usage", ""];
+	for (const [title, rows] of periods) {
+		lines.push(`## ${title}`, "");
+		if (rows.length === 0) {
+			lines.push("No usage recorded.", "");
+			continue;
+		}
+		for (const [label, keyOf] of groupings) {
+			const groups = new Map<string, UsageTotals>();
+			for (const row of rows) {
+				const totals = groups.get(keyOf(row)) ?? emptyTotals();
+				addTotals(totals, row);
+				groups.set(keyOf(row), totals);
+			}
+			lines.push(
+				`| ${label} | Requests | Prompt | Cached | Completion | Reasoning | Cost |`,
+				"|---|---:|---:|---:|---:|---:|---:|"
+			);
+			const sorted = Array.from(groups.entries()).sort(
+				([, a], [, b]) => b.promptTokens + b.completionTokens - (a.promptTokens + a.completionTokens)
+			);
+			for (const [key, t] of sorted) {
+				lines.push(
+					`| ${key} | ${t.requests} | ${t.promptTokens} | ${t.cachedTokens} | ${t.completionTokens} | ${t.reasoningTokens} | ${formatCost(t.cost)} |`
+				);
+			}
+			lines.push("");
+		}
+	}
+	return lines.join("\n");
+}
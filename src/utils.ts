@@ -5,15 +5,35 @@ import type {
 	OpenAIFunctionToolDef,
 	OpenAIToolCall,
 	ChatMessageContent,
+	HFModelItem,
 	RetryConfig,
 } from "./types";
+import { ApiError } from "./apiError";
+import { RequestTimeoutError } from "./transport";
+import { isLogEnabled, logger } from "./logger";
 
 const RETRY_MAX_ATTEMPTS = 3;
 const RETRY_INTERVAL_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
 
 // HTTP status codes that should trigger a retry
 const RETRYABLE_STATUS_CODES = [429, 500, 502, 503, 504];
 
+// Error messages of client errors that mean the model is unavailable right now, not that the request is wrong
+const FALLBACK_ERROR_PATTERNS = [/overloaded/i, /capacity/i, /unavailable/i, /rate.?limit/i, /quota/i, /not.?found/i];
+
+// Network level failures raised by fetch
+const NETWORK_ERROR_PATTERNS = [
+	/fetch failed/i,
+	/ECONNRESET/,
+	/ECONNREFUSED/,
+	/ETIMEDOUT/,
+	/ENOTFOUND/,
+	/timed? ?out/i,
+	/terminated/i,
+	/other side closed/i,
+];
+
 // Model ID parsing helper
 export interface ParsedModelId {
 	baseId: string;
@@ -37,6 +57,36 @@ export function parseModelId(modelId: string): ParsedModelId {
 	};
 }
 
+/**
+ * Human readable model label used in notices and logs.
+ * @param modelId The model id sent to the API.
+ * @param um The model configuration, if any.
+ */
+export function describeModel(modelId: string, um: HFModelItem | undefined): string {
+	if (um?.displayName) {
+		return um.displayName;
+	}
+	const id = um?.configId ? `${modelId}::${um.configId}` : modelId;
+	return um?.owned_by ? `${id} via ${um.owned_by}` : id;
+}
+
+/**
+ * Text of a streamed response part as the model generated it, used to estimate completion tokens.
+ * @param part The response part.
+ */
+export function responsePartText(part: vscode.LanguageModelResponsePart2): string {
+	if (part instanceof vscode.LanguageModelTextPart) {
+		return part.value;
+	}
+	if (part instanceof vscode.LanguageModelThinkingPart) {
+		return Array.isArray(part.value) ? part.value.join("") : part.value;
+	}
+	if (part instanceof vscode.LanguageModelToolCallPart) {
+		return `${part.name}(${JSON.stringify(part.input)})`;
+	}
+	return "";
+}
+
 // Tool calling sanitization helpers
 
 function isIntegerLikePropertyName(propertyName: string | undefined): boolean {
@@ -252,7 +302,7 @@ export function convertMessages(messages: readonly vscode.LanguageModelChatReque
 /**
  * 检查是否为图片MIME类型
  */
-function isImageMimeType(mimeType: string): boolean {
+export function isImageMimeType(mimeType: string): boolean {
 	return mimeType.startsWith("image/") && ["image/jpeg", "image/png", "image/gif", "image/webp"].includes(mimeType);
 }
 
@@ -296,7 +346,7 @@ export function convertTools(options: vscode.ProvideLanguageModelChatResponseOpt
 	let tool_choice: "auto" | { type: "function"; function: { name: string } } = "auto";
 	if (options.toolMode === vscode.LanguageModelChatToolMode.Required) {
 		if (tools.length !== 1) {
-			console.error("[OAI Compatible Model Provider] ToolMode.Required but multiple tools:", tools.length);
+			logger.error("ToolMode.Required but multiple tools:", tools.length);
 			throw new Error("LanguageModelChatToolMode.Required is not supported with more than one tool");
 		}
 		tool_choice = { type: "function", function: { name: sanitizeFunctionName(tools[0].name) } };
@@ -312,7 +362,7 @@ export function convertTools(options: vscode.ProvideLanguageModelChatResponseOpt
 export function validateTools(tools: readonly vscode.LanguageModelChatTool[]): void {
 	for (const tool of tools) {
 		if (!tool.name.match(/^[\w-]+$/)) {
-			console.error("[OAI Compatible Model Provider] Invalid tool name detected:", tool.name);
+			logger.error("Invalid tool name detected:", tool.name);
 			throw new Error(
 				`Invalid tool name "${tool.name}": only alphanumeric characters, hyphens, and underscores are allowed.`
 			);
@@ -327,7 +377,7 @@ export function validateTools(tools: readonly vscode.LanguageModelChatTool[]): v
 export function validateRequest(messages: readonly vscode.LanguageModelChatRequestMessage[]): void {
 	const lastMessage = messages[messages.length - 1];
 	if (!lastMessage) {
-		console.error("[OAI Compatible Model Provider] No messages in request");
+		logger.error("No messages in request");
 		throw new Error("Invalid request: no messages.");
 	}
 
@@ -348,10 +398,7 @@ export function validateRequest(messages: readonly vscode.LanguageModelChatReque
 			while (toolCallIds.size > 0) {
 				const nextMessage = messages[nextMessageIdx++];
 				if (!nextMessage || nextMessage.role !== vscode.LanguageModelChatMessageRole.User) {
-					console.error(
-						"[OAI Compatible Model Provider] Validation failed: missing tool result for call IDs:",
-						Array.from(toolCallIds)
-					);
+					logger.error("Validation failed: missing tool result for call IDs:", Array.from(toolCallIds));
 					throw new Error(errMsg);
 				}
 
@@ -360,10 +407,7 @@ export function validateRequest(messages: readonly vscode.LanguageModelChatReque
 						const ctorName =
 							(Object.getPrototypeOf(part as object) as { constructor?: { name?: string } } | undefined)?.constructor
 								?.name ?? typeof part;
-						console.error(
-							"[OAI Compatible Model Provider] Validation failed: expected tool result part, got:",
-							ctorName
-						);
+						logger.error("Validation failed: expected tool result part, got:", ctorName);
 						throw new Error(errMsg);
 					}
 					const callId = (part as { callId: string }).callId;
@@ -392,7 +436,7 @@ export function isToolResultPart(value: unknown): value is { callId: string; con
  * Map VS Code message role to OpenAI message role string.
  * @param message The message whose role is mapped.
  */
-function mapRole(message: vscode.LanguageModelChatRequestMessage): Exclude<OpenAIChatRole, "tool"> {
+export function mapRole(message: vscode.LanguageModelChatRequestMessage): Exclude<OpenAIChatRole, "tool"> {
 	const USER = vscode.LanguageModelChatMessageRole.User as unknown as number;
 	const ASSISTANT = vscode.LanguageModelChatMessageRole.Assistant as unknown as number;
 	const r = message.role as unknown as number;
@@ -409,7 +453,7 @@ function mapRole(message: vscode.LanguageModelChatRequestMessage): Exclude<OpenA
  * Concatenate tool result content into a single text string.
  * @param pr Tool result-like object with content array.
  */
-function collectToolResultText(pr: { content?: ReadonlyArray<unknown> }): string {
+export function collectToolResultText(pr: { content?: ReadonlyArray<unknown> }): string {
 	let text = "";
 	for (const c of pr.content ?? []) {
 		if (c instanceof vscode.LanguageModelTextPart) {
@@ -427,6 +471,31 @@ function collectToolResultText(pr: { content?: ReadonlyArray<unknown> }): string
 	return text;
 }
 
+/**
+ * Map that drops its least recently set entries beyond a maximum size.
+ */
+export class BoundedMap<K, V> extends Map<K, V> {
+	/**
+	 * @param maxSize Maximum number of entries kept.
+	 */
+	constructor(private readonly maxSize: number) {
+		super();
+	}
+
+	override set(key: K, value: V): this {
+		// Re-insert to mark as most recently set
+		this.delete(key);
+		super.set(key, value);
+		for (const oldest of this.keys()) {
+			if (this.size <= this.maxSize) {
+				break;
+			}
+			this.delete(oldest);
+		}
+		return this;
+	}
+}
+
 /**
  * Try to parse a JSON object from a string.
  * @param text The input string.
@@ -447,6 +516,83 @@ export function tryParseJSONObject(text: string): { ok: true; value: Record<stri
 	}
 }
 
+/**
+ * Read a streamed response body line by line.
+ * @param responseBody The streamed response body.
+ * @param token Cancellation token, cancels the reader when requested.
+ * @param onLine Callback receiving every complete line, including a trailing unterminated one.
+ * @param onChunk Callback invoked whenever a chunk arrives, e.g. to reset an idle timer.
+ */
+export async function readStreamLines(
+	responseBody: ReadableStream<Uint8Array>,
+	token: vscode.CancellationToken,
+	onLine: (line: string) => Promise<void>,
+	onChunk?: () => void
+): Promise<void> {
+	const reader = responseBody.getReader();
+	const decoder = new TextDecoder();
+	let buffer = "";
+	// Stop a pending read right away instead of waiting for the next chunk
+	const cancellationListener = token.onCancellationRequested(() => {
+		reader.cancel().catch(() => {});
+	});
+
+	try {
+		while (!token.isCancellationRequested) {
+			const { done, value } = await reader.read();
+			if (done) {
+				break;
+			}
+			onChunk?.();
+
+			buffer += decoder.decode(value, { stream: true });
+			const lines = buffer.split("\n");
+			buffer = lines.pop() || "";
+
+			for (const line of lines) {
+				if (line && isLogEnabled("trace")) {
+					logger.trace("<<", line);
+				}
+				await onLine(line);
+			}
+		}
+		if (buffer && !token.isCancellationRequested) {
+			if (isLogEnabled("trace")) {
+				logger.trace("<<", buffer);
+			}
+			await onLine(buffer);
+		}
+	} finally {
+		cancellationListener.dispose();
+		reader.releaseLock();
+	}
+}
+
+/**
+ * Read a server-sent event stream and hand each `data:` payload to a callback.
+ * @param responseBody The streamed response body.
+ * @param token Cancellation token, cancels the reader when requested.
+ * @param onData Callback receiving the trimmed payload of every `data:` line.
+ * @param onChunk Callback invoked whenever a chunk arrives.
+ */
+export async function readSSEData(
+	responseBody: ReadableStream<Uint8Array>,
+	token: vscode.CancellationToken,
+	onData: (data: string) => Promise<void>,
+	onChunk?: () => void
+): Promise<void> {
+	await readStreamLines(
+		responseBody,
+		token,
+		async (line) => {
+			if (line.startsWith("data:")) {
+				await onData(line.slice(5).trim());
+			}
+		},
+		onChunk
+	);
+}
+
 /**
  * Create retry configuration from VS Code workspace settings.
  * @returns Retry configuration with default values.
@@ -457,33 +603,94 @@ export function createRetryConfig(): RetryConfig {
 		enabled: true,
 		max_attempts: RETRY_MAX_ATTEMPTS,
 		interval_ms: RETRY_INTERVAL_MS,
+		max_delay_ms: RETRY_MAX_DELAY_MS,
 	});
 
 	return {
 		enabled: retryConfig.enabled ?? true,
 		max_attempts: retryConfig.max_attempts ?? RETRY_MAX_ATTEMPTS,
 		interval_ms: retryConfig.interval_ms ?? RETRY_INTERVAL_MS,
+		max_delay_ms: retryConfig.max_delay_ms ?? RETRY_MAX_DELAY_MS,
 	};
 }
 
 /**
- * Execute a function with retry logic for rate limiting.
+ * Whether an error is a network level failure (connection reset, DNS failure, timeout).
+ * @param error The error thrown while sending the request.
+ */
+export function isNetworkError(error: Error): boolean {
+	if (error instanceof ApiError) {
+		return false;
+	}
+	return NETWORK_ERROR_PATTERNS.some((p) => p.test(error.message) || p.test(String(error.cause ?? "")));
+}
+
+/**
+ * Whether a failed request may succeed when sent again: a retryable HTTP status or a network failure.
+ * @param error The error thrown while sending the request.
+ */
+export function isRetryableError(error: Error): boolean {
+	if (error instanceof RequestTimeoutError) {
+		return true;
+	}
+	if (error instanceof ApiError) {
+		return RETRYABLE_STATUS_CODES.includes(error.status);
+	}
+	return isNetworkError(error);
+}
+
+/**
+ * Whether a failed request should be re-run against the next fallback model:
+ * retryable status codes, network failures and timeouts, or client errors reporting an unavailable model.
+ * @param error The error thrown while sending the request.
+ */
+export function isFallbackEligibleError(error: Error): boolean {
+	if (isRetryableError(error)) {
+		return true;
+	}
+	if (!(error instanceof ApiError) || error.status < 400 || error.status >= 500) {
+		return false;
+	}
+	const text = `${error.code ?? ""} ${error.message} ${error.bodyText}`;
+	return FALLBACK_ERROR_PATTERNS.some((p) => p.test(text));
+}
+
+/**
+ * Delay before the next attempt: the server requested delay when given, otherwise
+ * exponential backoff with jitter. Both are capped at `max_delay_ms`.
+ * @param error The error of the failed attempt.
+ * @param attempt The 1-based number of the failed attempt.
+ * @param retryConfig Retry configuration.
+ */
+export function computeRetryDelay(error: Error, attempt: number, retryConfig: RetryConfig): number {
+	const maxDelayMs = retryConfig.max_delay_ms ?? RETRY_MAX_DELAY_MS;
+	if (error instanceof ApiError && error.retryAfterMs !== undefined) {
+		return Math.min(error.retryAfterMs, maxDelayMs);
+	}
+	const baseMs = (retryConfig.interval_ms ?? RETRY_INTERVAL_MS) * 2 ** (attempt - 1);
+	// Jitter spreads out clients that failed at the same moment
+	return Math.round(Math.min(baseMs, maxDelayMs) * (0.5 + Math.random() * 0.5));
+}
+
+/**
+ * Execute a function with retry logic for rate limiting, server errors and network failures.
  * @param fn The async function to execute
  * @param retryConfig Retry configuration
  * @param token Cancellation token
+ * @param shouldRetry Decides if an error is retried, defaults to `isRetryableError`
  * @returns Result of the function execution
  */
 export async function executeWithRetry<T>(
 	fn: () => Promise<T>,
 	retryConfig: RetryConfig,
-	token: vscode.CancellationToken
+	token: vscode.CancellationToken,
+	shouldRetry: (error: Error) => boolean = isRetryableError
 ): Promise<T> {
 	if (!retryConfig.enabled) {
 		return await fn();
 	}
 
 	const maxAttempts = retryConfig.max_attempts ?? RETRY_MAX_ATTEMPTS;
-	const intervalMs = retryConfig.interval_ms ?? RETRY_INTERVAL_MS;
 	let lastError: Error | undefined;
 
 	for (let attempt = 1; attempt <= maxAttempts; attempt++) {
@@ -497,18 +704,14 @@ export async function executeWithRetry<T>(
 		} catch (error) {
 			lastError = error instanceof Error ? error : new Error(String(error));
 
-			// Check if error is retryable based on status codes
-			const isRetryableError = RETRYABLE_STATUS_CODES.some((code) => lastError?.message.includes(`[${code}]`));
-
-			if (!isRetryableError || attempt === maxAttempts) {
+			if (token.isCancellationRequested || !shouldRetry(lastError) || attempt === maxAttempts) {
 				throw lastError;
 			}
 
-			console.warn(
-				`[OAI Compatible Model Provider] Retryable error detected, retrying in ${intervalMs}ms (attempt ${attempt}/${maxAttempts})`
-			);
+			const delayMs = computeRetryDelay(lastError, attempt, retryConfig);
+			logger.warn(`${lastError.message}, retrying in ${delayMs}ms (attempt ${attempt}/${maxAttempts})`);
 
-			// Wait for the specified interval before retrying
+			// Wait before retrying
 			await new Promise<void>((resolve) => {
 				let isResolved = false;
 				const cleanup = () => {
@@ -520,7 +723,7 @@ export async function executeWithRetry<T>(
 				const timeout = setTimeout(() => {
 					cleanup();
 					resolve();
-				}, intervalMs);
+				}, delayMs);
 
 				const cancellationListener = token.onCancellationRequested(() => {
 					clearTimeout(timeout);